@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { type NextRequest, NextResponse } from "next/server";
+
+const GENRES_DIR = path.resolve(process.env.GENRES_DIR || path.join(process.cwd(), "genres"));
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+};
+
+// Endpoint /genres/[path]: Serve image files from genres directory.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  try {
+    let filePath = (await params).path.join("/");
+
+    // SECURITY: See the corresponding comment in /plugins/[path].
+    filePath = path.resolve(GENRES_DIR, filePath);
+
+    // A prefix check would also accept sibling directories such as "genres-private",
+    // so the path must be relative to the genres directory without leaving it.
+    const relativePath = path.relative(GENRES_DIR, filePath);
+
+    if (
+      !relativePath ||
+      relativePath === ".." ||
+      relativePath.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relativePath)
+    ) {
+      throw new Error(`Attempted path traversal outside of genres directory: ${filePath}`);
+    }
+
+    const contentType = CONTENT_TYPES[path.extname(filePath).toLowerCase()];
+
+    if (!contentType) {
+      throw new Error(`Attempted access of non-image file in genres directory: ${filePath}`);
+    }
+
+    const fileContent = await readFile(filePath);
+
+    return new NextResponse(fileContent, {
+      status: 200,
+      headers: {
+        "Content-Type": contentType,
+      },
+    });
+  } catch (error) {
+    console.error(error);
+
+    // SECURITY: This is not a public API, so we return the same response
+    //           regardless of the error to prevent any information leakage.
+    return NextResponse.json({}, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { glob } from "fast-glob";
+import { NextResponse } from "next/server";
+
+const GENRES_DIR = process.env.GENRES_DIR || path.join(process.cwd(), "genres");
+
+// Endpoint /genres: Return definitions for all genre packs in genres directory.
+// The definitions are validated by the client, which owns the schema.
+export async function GET() {
+  try {
+    const genrePacks: Record<string, unknown>[] = [];
+    const genrePackFiles = await glob("*/genre.json", { cwd: GENRES_DIR });
+
+    for (const genrePackFile of genrePackFiles) {
+      const genrePackContent = await readFile(path.join(GENRES_DIR, genrePackFile), "utf-8");
+      const genrePack = JSON.parse(genrePackContent);
+      genrePack.id = path.dirname(genrePackFile);
+      genrePacks.push(genrePack);
+    }
+
+    return NextResponse.json(genrePacks);
+  } catch (error) {
+    console.error(error);
+
+    // SECURITY: This is not a public API, so we return the same response
+    //           regardless of the error to prevent any information leakage.
+    return NextResponse.json({}, { status: 500 });
+  }
+}
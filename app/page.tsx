@@ -6,17 +6,20 @@
 import { Text } from "@radix-ui/themes";
 import { current } from "immer";
 import { useEffect, useState } from "react";
+import * as z from "zod/v4";
 import { useShallow } from "zustand/shallow";
 import ErrorPopup from "@/components/ErrorPopup";
 import MainMenu from "@/components/MainMenu";
 import ProcessingOverlay from "@/components/ProcessingOverlay";
 import StateDebugger from "@/components/StateDebugger";
 import { abort, back, isAbortError, next } from "@/lib/engine";
-import { type Plugin, type PluginWrapper, useStateStore } from "@/lib/state";
+import * as schemas from "@/lib/schemas";
+import { onHydrationError, type Plugin, type PluginWrapper, useStateStore } from "@/lib/state";
 import CharacterSelect from "@/views/CharacterSelect";
 import Chat from "@/views/Chat";
 import ConnectionSetup from "@/views/ConnectionSetup";
 import GenreSelect from "@/views/GenreSelect";
+import Recovery from "@/views/Recovery";
 import ScenarioSetup from "@/views/ScenarioSetup";
 import Welcome from "@/views/Welcome";
 import { Context } from "./plugins";
@@ -25,6 +28,7 @@ import type { Manifest } from "./plugins/route";
 export default function Home() {
   const [stateLoaded, setStateLoaded] = useState(false);
   const [pluginsLoaded, setPluginsLoaded] = useState(false);
+  const [stateError, setStateError] = useState<Error | undefined>(undefined);
 
   const [overlayVisible, setOverlayVisible] = useState(true);
   const [overlayTitle, setOverlayTitle] = useState("Loading");
@@ -36,9 +40,10 @@ export default function Home() {
   const [onErrorRetry, setOnErrorRetry] = useState<(() => void) | undefined>(undefined);
   const [onErrorCancel, setOnErrorCancel] = useState<(() => void) | undefined>(undefined);
 
-  const { view, setStateAsync } = useStateStore(
+  const { view, activeSaveSlotId, setStateAsync } = useStateStore(
     useShallow((state) => ({
       view: state.view,
+      activeSaveSlotId: state.activeSaveSlotId,
       setStateAsync: state.setAsync,
     })),
   );
@@ -46,12 +51,40 @@ export default function Home() {
   const loadPlugins = async () => {
     setOverlayVisible(true);
     setOverlayTitle("Loading");
-    setOverlayMessage("Loading plugin manifests...");
+    setOverlayMessage("Loading genre packs...");
     setOverlayTokenCount(-1);
     setOnOverlayCancel(undefined);
 
     try {
       await setStateAsync(async (state) => {
+        const genrePacksResponse = await fetch("/genres");
+        const genrePacks: unknown[] = await genrePacksResponse.json();
+
+        state.genrePacks = {};
+
+        for (const genrePack of genrePacks) {
+          const result = schemas.GenrePack.safeParse(genrePack);
+
+          if (!result.success) {
+            const id = (genrePack as { id?: unknown }).id;
+            throw new Error(`Invalid genre pack "${id}": ${z.prettifyError(result.error)}`);
+          }
+
+          state.genrePacks[result.data.id] = result.data;
+        }
+
+        if (Object.keys(state.genrePacks).length === 0) {
+          throw new Error("No genre packs found");
+        }
+
+        // Campaigns that are still being set up can switch to another genre.
+        // Campaigns in progress keep their genre, even if its genre pack is missing.
+        if (!(state.genre in state.genrePacks) && state.view !== "chat") {
+          state.genre = Object.keys(state.genrePacks)[0];
+        }
+
+        setOverlayMessage("Loading plugin manifests...");
+
         const response = await fetch("/plugins");
         const manifests: Manifest[] = await response.json();
 
@@ -155,7 +188,15 @@ export default function Home() {
         setStateLoaded(true);
       });
 
-      return unsubscribe;
+      const unsubscribeError = onHydrationError((error) => {
+        setStateError(error);
+        setOverlayVisible(false);
+      });
+
+      return () => {
+        unsubscribe();
+        unsubscribeError();
+      };
     }
   }, []);
 
@@ -168,6 +209,8 @@ export default function Home() {
 
   return (
     <>
+      {stateError && <Recovery error={stateError} />}
+
       {stateLoaded && pluginsLoaded && (
         <>
           {view === "welcome" && <Welcome onNext={nextView} />}
@@ -175,7 +218,8 @@ export default function Home() {
           {view === "genre" && <GenreSelect onNext={nextView} onBack={back} />}
           {view === "character" && <CharacterSelect onNext={nextView} onBack={back} />}
           {view === "scenario" && <ScenarioSetup onNext={nextView} onBack={back} />}
-          {view === "chat" && <Chat />}
+          {/* Remount when loading another campaign, to discard transient UI state. */}
+          {view === "chat" && <Chat key={activeSaveSlotId} />}
 
           <MainMenu />
           <StateDebugger />
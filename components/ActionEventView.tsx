@@ -1,15 +1,43 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
 
-import { Box, Text } from "@radix-ui/themes";
-import type { ActionEvent } from "@/lib/state";
+import { Box, Flex, IconButton, Text, Tooltip } from "@radix-ui/themes";
+import { GiBackwardTime, GiBranchArrow } from "react-icons/gi";
+import { useShallow } from "zustand/shallow";
+import { forkBranch, rewind } from "@/lib/engine";
+import { type ActionEvent, useStateStore } from "@/lib/state";
+
+export default function ActionEventView({ event, index }: { event: ActionEvent; index: number }) {
+  const { canRewind } = useStateStore(
+    useShallow((state) => ({
+      // Actions are cleared while a turn is being processed,
+      // and rewinding during that time would be overwritten.
+      canRewind: state.actions.length > 0 && state.snapshots.some((snapshot) => snapshot.eventCount === index),
+    })),
+  );
 
-export default function ActionEventView({ event }: { event: ActionEvent }) {
   return (
-    <Box className="bg-(--sky-1)" width="100%" p="6">
-      <Text size="6" color="gray">
-        {event.action}
-      </Text>
-    </Box>
+    <Flex className="bg-(--sky-1)" width="100%" p="6" gap="4" align="start">
+      <Box flexGrow="1">
+        <Text size="6" color="gray">
+          {event.action}
+        </Text>
+      </Box>
+
+      {canRewind && (
+        <Flex gap="4">
+          <Tooltip content={<Text size="4">Fork a new branch here (keeps the current branch)</Text>}>
+            <IconButton variant="ghost" color="gray" onClick={() => forkBranch(index)}>
+              <GiBranchArrow size="25" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip content={<Text size="4">Rewind to here (discards everything that happened afterwards)</Text>}>
+            <IconButton variant="ghost" color="gray" onClick={() => rewind(index)}>
+              <GiBackwardTime size="25" />
+            </IconButton>
+          </Tooltip>
+        </Flex>
+      )}
+    </Flex>
   );
 }
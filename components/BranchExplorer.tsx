@@ -0,0 +1,201 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Badge, Box, Button, Dialog, Flex, Heading, ScrollArea, Select, Text, TextField } from "@radix-ui/themes";
+import { isEqual } from "lodash";
+import { useState } from "react";
+import Markdown from "react-markdown";
+import { useShallow } from "zustand/shallow";
+import { deleteBranch, renameBranch, switchBranch } from "@/lib/engine";
+import { getBranchTimeline } from "@/lib/history";
+import { type Timeline, useStateStore } from "@/lib/state";
+
+function getTurnCount(timeline: Timeline): number {
+  return timeline.events.filter((event) => event.type === "action").length;
+}
+
+// Returns the index of the first event in which the timelines differ.
+function getDivergenceIndex(timeline1: Timeline, timeline2: Timeline): number {
+  let index = 0;
+
+  while (
+    index < timeline1.events.length &&
+    index < timeline2.events.length &&
+    isEqual(timeline1.events[index], timeline2.events[index])
+  ) {
+    index++;
+  }
+
+  return index;
+}
+
+function TimelineView({ timeline, startIndex }: { timeline: Timeline; startIndex: number }) {
+  return (
+    <Flex direction="column" gap="4">
+      {timeline.events.slice(startIndex).map((event, index) => (
+        // biome-ignore lint/suspicious/noArrayIndexKey: The list is read-only, so this is valid.
+        <Box key={index}>
+          {event.type === "action" && (
+            <Text size="5" color="sky">
+              {event.action}
+            </Text>
+          )}
+          {event.type === "narration" && (
+            <Box className="text-(length:--font-size-4) [&_p]:mb-[0.7em]">
+              <Markdown>{event.text}</Markdown>
+            </Box>
+          )}
+          {event.type === "location_change" && (
+            <Heading className="lowercase" size="5" color="orange">
+              {timeline.locations[event.locationIndex].name}
+            </Heading>
+          )}
+        </Box>
+      ))}
+      {startIndex >= timeline.events.length && (
+        <Text size="4" color="gray">
+          No further events.
+        </Text>
+      )}
+    </Flex>
+  );
+}
+
+export default function BranchExplorer({ onClose }: { onClose: () => void }) {
+  const { state } = useStateStore(
+    useShallow((state) => ({
+      state: state,
+    })),
+  );
+
+  const [comparedBranchIndices, setComparedBranchIndices] = useState([
+    state.branches[state.activeBranchIndex].parentIndex ?? state.activeBranchIndex,
+    state.activeBranchIndex,
+  ]);
+
+  const [editedNames, setEditedNames] = useState<Record<number, string>>({});
+
+  // List branches depth-first, so that each branch appears below the branch it was forked from.
+  const branchList: { index: number; depth: number }[] = [];
+  const addBranches = (parentIndex: number | undefined, depth: number) => {
+    for (const [index, branch] of state.branches.entries()) {
+      if (branch.parentIndex === parentIndex) {
+        branchList.push({ index, depth });
+        addBranches(index, depth + 1);
+      }
+    }
+  };
+  addBranches(undefined, 0);
+
+  // Actions are cleared while a turn is being processed,
+  // and switching branches during that time would be overwritten.
+  const canSwitch = state.actions.length > 0;
+
+  // Branches may have been deleted since they were selected for comparison.
+  const comparedTimelines = comparedBranchIndices.map((index) =>
+    getBranchTimeline(state, Math.min(index, state.branches.length - 1)),
+  );
+  const divergenceIndex = getDivergenceIndex(comparedTimelines[0], comparedTimelines[1]);
+
+  return (
+    <Dialog.Root open={true} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Content maxWidth="80rem">
+        <Dialog.Title className="lowercase" size="7">
+          Branches
+        </Dialog.Title>
+
+        <Flex direction="column" gap="2" mb="6">
+          {branchList.map(({ index, depth }) => {
+            const branch = state.branches[index];
+            const timeline = getBranchTimeline(state, index);
+            const active = index === state.activeBranchIndex;
+
+            return (
+              <Flex key={index} align="center" gap="3" style={{ paddingLeft: `${depth * 2}rem` }}>
+                <TextField.Root
+                  value={editedNames[index] ?? branch.name}
+                  onChange={(event) => setEditedNames({ ...editedNames, [index]: event.target.value })}
+                  onBlur={() => {
+                    const name = editedNames[index]?.trim();
+                    if (name) {
+                      renameBranch(index, name);
+                    }
+                    setEditedNames({});
+                  }}
+                  className="w-60 text-(length:--font-size-4)"
+                  maxLength={100}
+                />
+                <Text size="4" color="gray">
+                  {getTurnCount(timeline)} turns
+                  {branch.parentIndex !== undefined &&
+                    branch.forkEventIndex !== undefined &&
+                    `, forked from "${state.branches[branch.parentIndex].name}" at turn ${
+                      timeline.events.slice(0, branch.forkEventIndex).filter((event) => event.type === "action")
+                        .length + 1
+                    }`}
+                </Text>
+                <Box flexGrow="1" />
+                {active ? (
+                  <Badge size="3" color="lime">
+                    Active
+                  </Badge>
+                ) : (
+                  <>
+                    <Button variant="surface" color="red" onClick={() => deleteBranch(index)}>
+                      <Text size="4">Delete</Text>
+                    </Button>
+                    <Button variant="surface" onClick={() => switchBranch(index)} disabled={!canSwitch}>
+                      <Text size="4">Switch to branch</Text>
+                    </Button>
+                  </>
+                )}
+              </Flex>
+            );
+          })}
+        </Flex>
+
+        <Heading className="lowercase" size="6" mb="3">
+          Compare
+        </Heading>
+        <Flex gap="6">
+          {comparedBranchIndices.map((branchIndex, column) => (
+            // biome-ignore lint/suspicious/noArrayIndexKey: There are always exactly two columns.
+            <Flex key={column} direction="column" gap="3" width="50%">
+              <Select.Root
+                value={String(Math.min(branchIndex, state.branches.length - 1))}
+                onValueChange={(value) => {
+                  const indices = [...comparedBranchIndices];
+                  indices[column] = Number(value);
+                  setComparedBranchIndices(indices);
+                }}
+              >
+                <Select.Trigger />
+                <Select.Content>
+                  {state.branches.map((branch, index) => (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: Branches are identified by their index.
+                    <Select.Item key={index} value={String(index)}>
+                      {branch.name}
+                    </Select.Item>
+                  ))}
+                </Select.Content>
+              </Select.Root>
+              <ScrollArea className="h-[50vh]" scrollbars="vertical">
+                <Box pr="4">
+                  <TimelineView timeline={comparedTimelines[column]} startIndex={divergenceIndex} />
+                </Box>
+              </ScrollArea>
+            </Flex>
+          ))}
+        </Flex>
+
+        <Flex justify="end" mt="5">
+          <Dialog.Close>
+            <Button variant="classic" color="gray" size="3">
+              <Text size="5">Close</Text>
+            </Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,169 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Badge, Box, Button, Dialog, Flex, ScrollArea, Text, TextField } from "@radix-ui/themes";
+import { useRef, useState } from "react";
+import { useShallow } from "zustand/shallow";
+import { downloadFile, getFileNameSlug } from "@/lib/download";
+import {
+  createSaveSlot,
+  deleteSaveSlot,
+  duplicateSaveSlot,
+  exportState,
+  getSaveSlotInfo,
+  importCampaign,
+  loadSaveSlot,
+  renameSaveSlot,
+} from "@/lib/saves";
+import { type State, useStateStore } from "@/lib/state";
+
+function downloadState(state: State) {
+  const slot = state.saveSlots.find((slot) => slot.id === state.activeSaveSlotId);
+  const name = getFileNameSlug(slot?.name ?? "campaign");
+  downloadFile(exportState(state), `waidrin-${name}.json`, "application/json");
+}
+
+export default function CampaignManager({ onClose }: { onClose: () => void }) {
+  const { state } = useStateStore(
+    useShallow((state) => ({
+      state: state,
+    })),
+  );
+
+  const [editedNames, setEditedNames] = useState<Record<string, string>>({});
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Actions are cleared while a turn is being processed,
+  // and switching campaigns during that time would be overwritten.
+  const canSwitch = state.view !== "chat" || state.actions.length > 0;
+
+  const run = async (operation: () => Promise<void>) => {
+    try {
+      setErrorMessage("");
+      await operation();
+    } catch (error) {
+      let message = error instanceof Error ? error.message : String(error);
+      if (!message) {
+        message = "Unknown error";
+      }
+      setErrorMessage(message);
+    }
+  };
+
+  const slots = state.saveSlots
+    .map((slot) => getSaveSlotInfo(state, slot))
+    .sort((slot1, slot2) => slot2.lastPlayed - slot1.lastPlayed);
+
+  return (
+    <Dialog.Root open={true} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Content maxWidth="60rem">
+        <Dialog.Title className="lowercase" size="7">
+          Campaigns
+        </Dialog.Title>
+
+        <ScrollArea className="max-h-[60vh]" scrollbars="vertical">
+          <Flex direction="column" gap="4" pr="4">
+            {slots.map((slot) => {
+              const active = slot.id === state.activeSaveSlotId;
+
+              return (
+                <Flex key={slot.id} align="center" gap="3">
+                  <Flex direction="column" gap="1">
+                    <TextField.Root
+                      value={editedNames[slot.id] ?? slot.name}
+                      onChange={(event) => setEditedNames({ ...editedNames, [slot.id]: event.target.value })}
+                      onBlur={() => {
+                        const name = editedNames[slot.id]?.trim();
+                        if (name) {
+                          run(() => renameSaveSlot(slot.id, name));
+                        }
+                        setEditedNames({});
+                      }}
+                      className="w-72 text-(length:--font-size-4)"
+                      maxLength={100}
+                    />
+                    <Text size="3" color="gray">
+                      {[
+                        slot.worldName,
+                        slot.protagonistName,
+                        `${slot.turnCount} turns`,
+                        slot.lastPlayed > 0 && `last played ${new Date(slot.lastPlayed).toLocaleString()}`,
+                      ]
+                        .filter(Boolean)
+                        .join(", ")}
+                    </Text>
+                  </Flex>
+                  <Box flexGrow="1" />
+                  {active ? (
+                    <Badge size="3" color="lime">
+                      Active
+                    </Badge>
+                  ) : (
+                    <Button variant="surface" color="red" onClick={() => run(() => deleteSaveSlot(slot.id))}>
+                      <Text size="4">Delete</Text>
+                    </Button>
+                  )}
+                  <Button variant="surface" onClick={() => run(() => duplicateSaveSlot(slot.id))}>
+                    <Text size="4">Duplicate</Text>
+                  </Button>
+                  {!active && (
+                    <Button variant="surface" onClick={() => run(() => loadSaveSlot(slot.id))} disabled={!canSwitch}>
+                      <Text size="4">Load</Text>
+                    </Button>
+                  )}
+                </Flex>
+              );
+            })}
+          </Flex>
+        </ScrollArea>
+
+        {errorMessage && (
+          <Text className="whitespace-pre-wrap" as="div" size="4" color="red" mt="4">
+            {errorMessage}
+          </Text>
+        )}
+
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            // Allow selecting the same file again after fixing it.
+            event.target.value = "";
+            if (file) {
+              run(async () => importCampaign(await file.text()));
+            }
+          }}
+        />
+
+        <Flex gap="3" mt="5" justify="end">
+          <Button variant="classic" color="gray" size="3" onClick={() => downloadState(state)}>
+            <Text size="5">Export</Text>
+          </Button>
+          <Button
+            variant="classic"
+            color="gray"
+            size="3"
+            onClick={() => fileInput.current?.click()}
+            disabled={!canSwitch}
+          >
+            <Text size="5">Import</Text>
+          </Button>
+          <Box flexGrow="1" />
+          <Button variant="classic" size="3" onClick={() => run(createSaveSlot)} disabled={!canSwitch}>
+            <Text size="5">New campaign</Text>
+          </Button>
+          <Dialog.Close>
+            <Button variant="classic" color="gray" size="3">
+              <Text size="5">Close</Text>
+            </Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
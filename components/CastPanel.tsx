@@ -0,0 +1,191 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Badge, Box, Button, Flex, Heading, IconButton, Text, TextArea } from "@radix-ui/themes";
+import { useState } from "react";
+import { GiPencil, GiPin } from "react-icons/gi";
+import { useShallow } from "zustand/shallow";
+import { editCharacterBiography, setCharacterPinned } from "@/lib/engine";
+import { getCharacterImage } from "@/lib/genres";
+import * as schemas from "@/lib/schemas";
+import { type Character, type GenrePack, type State, useStateStore } from "@/lib/state";
+
+interface Appearance {
+  sceneNumber: number;
+  locationName: string;
+}
+
+// Returns the scene number and location of the first narration each character was referenced in.
+function getFirstAppearances(state: State): Map<number, Appearance> {
+  const appearances = new Map<number, Appearance>();
+  let sceneNumber = 0;
+
+  for (const event of state.events) {
+    if (event.type === "location_change") {
+      sceneNumber++;
+    } else if (event.type === "narration") {
+      for (const index of event.referencedCharacterIndices) {
+        if (!appearances.has(index)) {
+          appearances.set(index, { sceneNumber, locationName: state.locations[event.locationIndex].name });
+        }
+      }
+    }
+  }
+
+  return appearances;
+}
+
+function CastMember({
+  character,
+  characterIndex,
+  genrePack,
+  appearance,
+  disabled,
+}: {
+  character: Character;
+  characterIndex: number;
+  genrePack?: GenrePack;
+  appearance?: Appearance;
+  disabled: boolean;
+}) {
+  const [editedBiography, setEditedBiography] = useState<string | undefined>(undefined);
+
+  const valid = editedBiography !== undefined && schemas.Character.shape.biography.safeParse(editedBiography).success;
+
+  return (
+    <Flex gap="3">
+      {genrePack && (
+        <img
+          className="h-24 w-14.4375 shrink-0 shadow-(--base-card-surface-box-shadow) rounded-(--radius-2)"
+          src={getCharacterImage(genrePack, character)}
+          alt=""
+        />
+      )}
+
+      <Box flexGrow="1">
+        <Flex align="center" gap="2">
+          <Text size="4" weight="bold" color="lime">
+            {character.name}
+          </Text>
+          {character.status !== "active" && (
+            <Badge size="1" color="gray">
+              {character.status}
+            </Badge>
+          )}
+          <Box flexGrow="1" />
+          <IconButton
+            variant={character.pinned ? "solid" : "ghost"}
+            color={character.pinned ? "amber" : "gray"}
+            size="1"
+            disabled={disabled}
+            title={character.pinned ? "Unpin (no longer always include in prompts)" : "Pin (always include in prompts)"}
+            onClick={() => setCharacterPinned(characterIndex, !character.pinned)}
+          >
+            <GiPin size="16" />
+          </IconButton>
+          <IconButton
+            variant="ghost"
+            color="gray"
+            size="1"
+            disabled={disabled}
+            title="Edit biography"
+            onClick={() => setEditedBiography(character.biography)}
+          >
+            <GiPencil size="16" />
+          </IconButton>
+        </Flex>
+
+        <Text as="div" size="2" color="gray" mb="1">
+          {appearance
+            ? `First appeared in scene ${appearance.sceneNumber} at ${appearance.locationName}`
+            : "Not encountered yet"}
+        </Text>
+
+        {editedBiography === undefined ? (
+          <Text as="div" size="3">
+            {character.biography}
+          </Text>
+        ) : (
+          <>
+            <TextArea
+              value={editedBiography}
+              onChange={(event) => setEditedBiography(event.target.value)}
+              className="[&_textarea]:text-(length:--font-size-3)"
+              rows={6}
+              resize="vertical"
+            />
+            <Flex gap="2" mt="2" justify="end">
+              <Button variant="classic" color="gray" size="1" onClick={() => setEditedBiography(undefined)}>
+                <Text size="2">Cancel</Text>
+              </Button>
+              <Button
+                variant="classic"
+                size="1"
+                disabled={!valid || disabled}
+                onClick={() => {
+                  editCharacterBiography(characterIndex, editedBiography);
+                  setEditedBiography(undefined);
+                }}
+              >
+                <Text size="2">Save</Text>
+              </Button>
+            </Flex>
+          </>
+        )}
+      </Box>
+    </Flex>
+  );
+}
+
+// Editing is disabled while an operation is in progress, because the operation
+// would overwrite the changes when it commits its state.
+export default function CastPanel({ disabled = false }: { disabled?: boolean }) {
+  const { state } = useStateStore(
+    useShallow((state) => ({
+      state: state,
+    })),
+  );
+
+  // The genre pack may be missing if it has been uninstalled since the campaign was started.
+  const genrePack = state.genrePacks[state.genre];
+  const appearances = getFirstAppearances(state);
+  const indices = state.characters.map((_, index) => index);
+
+  const groups = [
+    {
+      title: "Present",
+      indices: indices.filter((index) => state.characters[index].locationIndex === state.protagonist.locationIndex),
+    },
+    {
+      title: "Elsewhere",
+      indices: indices.filter((index) => state.characters[index].locationIndex !== state.protagonist.locationIndex),
+    },
+  ];
+
+  return (
+    <Flex direction="column" gap="5">
+      {groups.map(
+        ({ title, indices }) =>
+          indices.length > 0 && (
+            <Box key={title}>
+              <Heading className="lowercase" size="5" color="gold" mb="3">
+                {title}
+              </Heading>
+              <Flex direction="column" gap="4">
+                {indices.map((index) => (
+                  <CastMember
+                    key={index}
+                    character={state.characters[index]}
+                    characterIndex={index}
+                    genrePack={genrePack}
+                    appearance={appearances.get(index)}
+                    disabled={disabled}
+                  />
+                ))}
+              </Flex>
+            </Box>
+          ),
+      )}
+    </Flex>
+  );
+}
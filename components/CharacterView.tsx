@@ -1,25 +1,77 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
 
-import { Flex, Heading, Text } from "@radix-ui/themes";
-import type { Character } from "@/lib/state";
+import { Badge, Flex, Heading, Text } from "@radix-ui/themes";
+import { useShallow } from "zustand/shallow";
+import { getCharacterImage, getRaceName } from "@/lib/genres";
+import { type Disposition, getDisposition } from "@/lib/prompts";
+import { type Character, type CharacterStatus, useStateStore } from "@/lib/state";
+
+const dispositionColors: Record<Disposition, "red" | "orange" | "gray" | "green" | "cyan"> = {
+  hostile: "red",
+  unfriendly: "orange",
+  neutral: "gray",
+  friendly: "green",
+  devoted: "cyan",
+};
+
+const statusColors: Record<Exclude<CharacterStatus, "active">, "crimson" | "amber" | "gray"> = {
+  dead: "crimson",
+  imprisoned: "amber",
+  departed: "gray",
+};
 
 export default function CharacterView({ character }: { character: Character }) {
+  // The genre pack may be missing if it has been uninstalled since the campaign was started.
+  const { genrePack } = useStateStore(
+    useShallow((state) => ({
+      genrePack: state.genrePacks[state.genre],
+    })),
+  );
+
+  const { score, notes } = character.relationship;
+  const disposition = getDisposition(score);
+
   return (
     <Flex width="100%" gap="6">
-      <img
-        className="h-48 w-28.875 shadow-(--base-card-surface-box-shadow) rounded-(--radius-4)"
-        src={`/images/${character.gender}-${character.race}.png`}
-        alt={`${character.gender} ${character.race}`}
-      />
+      {genrePack && (
+        <img
+          className="h-48 w-28.875 shadow-(--base-card-surface-box-shadow) rounded-(--radius-4)"
+          src={getCharacterImage(genrePack, character)}
+          alt={`${character.gender} ${getRaceName(genrePack, character.race)}`}
+        />
+      )}
 
       <Flex direction="column" flexGrow="1">
         <Heading className="mt-[-0.2em] lowercase" size="7" weight="regular" color="lime" mb="4">
           {character.name}
+          {character.status !== "active" && (
+            <Badge className="align-middle" size="2" color={statusColors[character.status]} ml="3">
+              {character.status}
+            </Badge>
+          )}
         </Heading>
         <Text size="5" color="gray">
           {character.biography}
         </Text>
+
+        {/* The protagonist has no relationship with themselves, so theirs is never updated. */}
+        {(score !== 0 || notes.length > 0) && (
+          <Flex direction="column" gap="2" mt="4">
+            <Flex align="center" gap="2">
+              <Text size="4">Relationship:</Text>
+              <Badge size="2" color={dispositionColors[disposition]}>
+                {disposition} ({score > 0 ? `+${score}` : score})
+              </Badge>
+            </Flex>
+            {notes.map((note, index) => (
+              // biome-ignore lint/suspicious/noArrayIndexKey: Notes may repeat, and the list is read-only.
+              <Text key={index} size="3" color="gray">
+                &bull; {note}
+              </Text>
+            ))}
+          </Flex>
+        )}
       </Flex>
     </Flex>
   );
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Box, ScrollArea, Tabs, Text } from "@radix-ui/themes";
+import CastPanel from "./CastPanel";
+import InventoryPanel from "./InventoryPanel";
+import JournalPanel from "./JournalPanel";
+
+export default function ChatSidebar({ busy = false }: { busy?: boolean }) {
+  return (
+    <Tabs.Root className="flex flex-col h-full" defaultValue="inventory">
+      <Tabs.List>
+        <Tabs.Trigger value="inventory">
+          <Text size="4">Inventory</Text>
+        </Tabs.Trigger>
+        <Tabs.Trigger value="journal">
+          <Text size="4">Journal</Text>
+        </Tabs.Trigger>
+        <Tabs.Trigger value="cast">
+          <Text size="4">Cast</Text>
+        </Tabs.Trigger>
+      </Tabs.List>
+
+      <ScrollArea className="flex-1" scrollbars="vertical">
+        <Box p="4">
+          <Tabs.Content value="inventory">
+            <InventoryPanel />
+          </Tabs.Content>
+          <Tabs.Content value="journal">
+            <JournalPanel />
+          </Tabs.Content>
+          <Tabs.Content value="cast">
+            <CastPanel disabled={busy} />
+          </Tabs.Content>
+        </Box>
+      </ScrollArea>
+    </Tabs.Root>
+  );
+}
@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Badge, Box, Button, Card, Flex, Text } from "@radix-ui/themes";
+import { useState } from "react";
+import { GiStethoscope } from "react-icons/gi";
+import { getBackend } from "@/lib/backend";
+import { type Diagnostic, type DiagnosticStatus, diagnoseBackend } from "@/lib/diagnostics";
+
+const statusColors: Record<DiagnosticStatus, "gray" | "green" | "amber" | "red"> = {
+  pending: "gray",
+  ok: "green",
+  warning: "amber",
+  error: "red",
+  skipped: "gray",
+};
+
+export default function ConnectionDiagnostics() {
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const runDiagnostics = async () => {
+    setRunning(true);
+
+    try {
+      // Diagnostics never throw; failures are reported as results.
+      setDiagnostics(await diagnoseBackend(getBackend(), setDiagnostics));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card size="2">
+      <Flex justify="between" align="center">
+        <Text size="5">Connection diagnostics</Text>
+        <Button variant="surface" size="2" loading={running} onClick={runDiagnostics}>
+          <GiStethoscope size="20" />
+          <Text size="4">Run tests</Text>
+        </Button>
+      </Flex>
+
+      {diagnostics.length > 0 && (
+        <Flex direction="column" gap="3" mt="4">
+          {diagnostics.map((diagnostic) => (
+            <Box key={diagnostic.title}>
+              <Flex gap="3" align="center">
+                <Badge size="2" color={statusColors[diagnostic.status]}>
+                  {diagnostic.status}
+                </Badge>
+                <Text size="4">{diagnostic.title}</Text>
+              </Flex>
+              {diagnostic.message && (
+                <Text as="p" size="3" color="gray" mt="1">
+                  {diagnostic.message}
+                </Text>
+              )}
+            </Box>
+          ))}
+        </Flex>
+      )}
+    </Card>
+  );
+}
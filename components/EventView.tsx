@@ -10,10 +10,10 @@ import NarrationEventView from "./NarrationEventView";
 
 // The list of events can grow very long, so this component is memoized
 // to prevent re-rendering all events when one of them is updated.
-export default memo(function EventView({ event }: { event: Event }) {
+export default memo(function EventView({ event, index }: { event: Event; index: number }) {
   return (
     <>
-      {event.type === "action" && <ActionEventView event={event} />}
+      {event.type === "action" && <ActionEventView event={event} index={index} />}
       {event.type === "narration" && <NarrationEventView event={event} />}
       {event.type === "character_introduction" && <CharacterIntroductionEventView event={event} />}
       {event.type === "location_change" && <LocationChangeEventView event={event} />}
@@ -20,7 +20,7 @@ export default function ImageOption({
   return (
     <RadioCards.Item
       className="flex items-end h-128 w-77 bg-(image:--image) bg-cover p-0"
-      style={{ "--image": `url(/images/${image}.png)` } as React.CSSProperties}
+      style={{ "--image": `url(${image})` } as React.CSSProperties}
       value={value}
       disabled={disabled}
     >
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Box, Flex, Heading, Text } from "@radix-ui/themes";
+import { useShallow } from "zustand/shallow";
+import { type Item, useStateStore } from "@/lib/state";
+
+function ItemList({ items }: { items: Item[] }) {
+  return (
+    <Flex direction="column" gap="2">
+      {items.map((item, index) => (
+        // biome-ignore lint/suspicious/noArrayIndexKey: Items may share a name, and the list is read-only.
+        <Box key={index}>
+          <Text as="div" size="4" weight="bold">
+            {item.name}
+          </Text>
+          <Text as="div" size="3" color="gray">
+            {item.description}
+          </Text>
+        </Box>
+      ))}
+    </Flex>
+  );
+}
+
+export default function InventoryPanel() {
+  const { protagonist, characters } = useStateStore(
+    useShallow((state) => ({
+      protagonist: state.protagonist,
+      characters: state.characters,
+    })),
+  );
+
+  // Only characters at the protagonist's location are relevant.
+  const presentCharacters = characters.filter(
+    (character) => character.locationIndex === protagonist.locationIndex && character.items.length > 0,
+  );
+
+  return (
+    <Flex direction="column" gap="5">
+      {protagonist.items.length > 0 ? (
+        <ItemList items={protagonist.items} />
+      ) : (
+        <Text size="4" color="gray">
+          You are not carrying any items of note.
+        </Text>
+      )}
+
+      {presentCharacters.map((character) => (
+        <Box key={character.name}>
+          <Heading className="lowercase" size="5" color="lime" mb="2">
+            {character.name}
+          </Heading>
+          <ItemList items={character.items} />
+        </Box>
+      ))}
+    </Flex>
+  );
+}
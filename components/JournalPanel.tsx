@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Box, Flex, Heading, Text } from "@radix-ui/themes";
+import { useShallow } from "zustand/shallow";
+import { type QuestStatus, useStateStore } from "@/lib/state";
+
+const sections: { status: QuestStatus; title: string; color: "gold" | "green" | "red" }[] = [
+  { status: "active", title: "Active", color: "gold" },
+  { status: "completed", title: "Completed", color: "green" },
+  { status: "failed", title: "Failed", color: "red" },
+];
+
+export default function JournalPanel() {
+  const { quests } = useStateStore(
+    useShallow((state) => ({
+      quests: state.quests,
+    })),
+  );
+
+  if (quests.length === 0) {
+    return (
+      <Text size="4" color="gray">
+        You have not taken on any quests yet.
+      </Text>
+    );
+  }
+
+  return (
+    <Flex direction="column" gap="5">
+      {sections.map(({ status, title, color }) => {
+        const sectionQuests = quests.filter((quest) => quest.status === status);
+
+        return (
+          sectionQuests.length > 0 && (
+            <Box key={status}>
+              <Heading className="lowercase" size="5" color={color} mb="2">
+                {title}
+              </Heading>
+              <Flex direction="column" gap="2">
+                {sectionQuests.map((quest, index) => (
+                  // biome-ignore lint/suspicious/noArrayIndexKey: Quests may share a title, and the list is read-only.
+                  <Box key={index}>
+                    <Text as="div" size="4" weight="bold" className={status === "active" ? "" : "line-through"}>
+                      {quest.title}
+                    </Text>
+                    <Text as="div" size="3" color="gray">
+                      {quest.description}
+                    </Text>
+                  </Box>
+                ))}
+              </Flex>
+            </Box>
+          )
+        );
+      })}
+    </Flex>
+  );
+}
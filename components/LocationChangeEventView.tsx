@@ -3,18 +3,22 @@
 
 import { Flex, Heading, Text } from "@radix-ui/themes";
 import { useShallow } from "zustand/shallow";
+import { getLocationImage } from "@/lib/genres";
 import { type LocationChangeEvent, useStateStore } from "@/lib/state";
 
 export default function LocationChangeEventView({ event }: { event: LocationChangeEvent }) {
-  const { location } = useStateStore(
+  const { location, genrePack } = useStateStore(
     useShallow((state) => ({
       location: state.locations[event.locationIndex],
+      genrePack: state.genrePacks[state.genre],
     })),
   );
 
+  const image = genrePack && getLocationImage(genrePack, location.type);
+
   return (
     <Flex direction="column" width="100%">
-      <img src={`/images/${location.type}.png`} alt={location.type} />
+      {image && <img src={image} alt={location.type} />}
 
       <Flex className="bg-(--orange-2)" direction="column" p="6">
         <Heading className="lowercase" size="7" color="orange" align="center" mb="5">
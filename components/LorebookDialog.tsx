@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Box, Button, Dialog, Flex, ScrollArea, Text } from "@radix-ui/themes";
+import LorebookEditor from "./LorebookEditor";
+
+export default function LorebookDialog({ onClose }: { onClose: () => void }) {
+  return (
+    <Dialog.Root open={true} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Content maxWidth="60rem">
+        <Dialog.Title className="lowercase" size="7">
+          Lorebook
+        </Dialog.Title>
+
+        <ScrollArea className="max-h-[70vh]" scrollbars="vertical">
+          <Box pr="4">
+            <LorebookEditor />
+          </Box>
+        </ScrollArea>
+
+        <Flex justify="end" mt="5">
+          <Dialog.Close>
+            <Button variant="classic" color="gray" size="3">
+              <Text size="5">Close</Text>
+            </Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,145 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Box, Button, Card, Flex, IconButton, Text, TextArea, TextField } from "@radix-ui/themes";
+import { Label } from "radix-ui";
+import { useState } from "react";
+import { GiTrashCan } from "react-icons/gi";
+import { useShallow } from "zustand/shallow";
+import { type LorebookEntry, useStateStore } from "@/lib/state";
+
+function parseKeywords(text: string): string[] {
+  return text
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword);
+}
+
+function EntryEditor({ entry, index }: { entry: LorebookEntry; index: number }) {
+  const { setState } = useStateStore(
+    useShallow((state) => ({
+      setState: state.set,
+    })),
+  );
+
+  // Keywords are edited as text and only parsed when editing is finished,
+  // so that separators can be typed without being removed immediately.
+  const [keywordsText, setKeywordsText] = useState<string | undefined>(undefined);
+
+  return (
+    <Card size="2">
+      <Flex gap="3" mb="3">
+        <Box flexGrow="1">
+          <Label.Root>
+            <Text size="4" color="cyan">
+              Title
+            </Text>
+            <TextField.Root
+              value={entry.title}
+              onChange={(event) =>
+                setState((state) => {
+                  state.lorebook[index].title = event.target.value;
+                })
+              }
+              className="mt-1 text-(length:--font-size-4)"
+              size="2"
+            />
+          </Label.Root>
+        </Box>
+        <Box flexGrow="1">
+          <Label.Root>
+            <Text size="4" color="cyan">
+              Keywords (comma-separated)
+            </Text>
+            <TextField.Root
+              value={keywordsText ?? entry.keywords.join(", ")}
+              onChange={(event) => setKeywordsText(event.target.value)}
+              onBlur={() => {
+                if (keywordsText !== undefined) {
+                  const keywords = parseKeywords(keywordsText);
+                  if (keywords.length > 0) {
+                    setState((state) => {
+                      state.lorebook[index].keywords = keywords;
+                    });
+                  }
+                  setKeywordsText(undefined);
+                }
+              }}
+              className="mt-1 text-(length:--font-size-4)"
+              size="2"
+            />
+          </Label.Root>
+        </Box>
+        <IconButton
+          className="self-end"
+          variant="soft"
+          color="red"
+          title="Delete entry"
+          onClick={() =>
+            setState((state) => {
+              state.lorebook.splice(index, 1);
+            })
+          }
+        >
+          <GiTrashCan size="20" />
+        </IconButton>
+      </Flex>
+      <Label.Root>
+        <Text size="4" color="cyan">
+          Content
+        </Text>
+        <TextArea
+          value={entry.content}
+          onChange={(event) =>
+            setState((state) => {
+              state.lorebook[index].content = event.target.value;
+            })
+          }
+          className="mt-1 [&_textarea]:text-(length:--font-size-4)"
+          size="2"
+          resize="vertical"
+        />
+      </Label.Root>
+    </Card>
+  );
+}
+
+export default function LorebookEditor() {
+  const { lorebook, setState } = useStateStore(
+    useShallow((state) => ({
+      lorebook: state.lorebook,
+      setState: state.set,
+    })),
+  );
+
+  return (
+    <Flex direction="column" gap="4">
+      <Text size="4" color="gray">
+        Entries are added to the game master's instructions whenever one of their keywords appears in the most recent
+        narration or in your action.
+      </Text>
+
+      {lorebook.map((entry, index) => (
+        // biome-ignore lint/suspicious/noArrayIndexKey: Entries are identified by their index.
+        <EntryEditor key={index} entry={entry} index={index} />
+      ))}
+
+      <Box>
+        <Button
+          variant="surface"
+          onClick={() =>
+            setState((state) => {
+              state.lorebook.push({
+                title: "New entry",
+                keywords: ["keyword"],
+                content: "Description",
+              });
+            })
+          }
+        >
+          <Text size="4">Add entry</Text>
+        </Button>
+      </Box>
+    </Flex>
+  );
+}
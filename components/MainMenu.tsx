@@ -1,30 +1,130 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
 
-import { DropdownMenu, IconButton, Text } from "@radix-ui/themes";
+import { AlertDialog, Button, DropdownMenu, Flex, IconButton, Text } from "@radix-ui/themes";
+import { useState } from "react";
 import { GiElfHelmet } from "react-icons/gi";
+import { useShallow } from "zustand/shallow";
+import { downloadFile, getFileNameSlug } from "@/lib/download";
 import { reset } from "@/lib/engine";
+import { getState, useStateStore } from "@/lib/state";
+import { getTranscriptFile, type TranscriptFormat } from "@/lib/transcript";
+import BranchExplorer from "./BranchExplorer";
+import CampaignManager from "./CampaignManager";
+import LorebookDialog from "./LorebookDialog";
+import WorldMap from "./WorldMap";
+
+function exportTranscript(format: TranscriptFormat) {
+  const state = getState();
+  const { content, type, extension } = getTranscriptFile(state, format);
+  downloadFile(content, `${getFileNameSlug(state.world.name)}.${extension}`, type);
+}
+
+function ResetDialog({ onClose }: { onClose: () => void }) {
+  return (
+    <AlertDialog.Root open={true} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialog.Content maxWidth="40rem">
+        <AlertDialog.Title className="lowercase" size="6" color="red">
+          Reset state
+        </AlertDialog.Title>
+
+        <AlertDialog.Description size="5">
+          This deletes <strong>all campaigns</strong>, including every save slot and branch, and cannot be undone.
+          Connection settings are reset as well.
+        </AlertDialog.Description>
+
+        <Flex gap="3" mt="6" justify="end">
+          <AlertDialog.Cancel>
+            <Button variant="classic" color="gray" size="3">
+              <Text size="6">Cancel</Text>
+            </Button>
+          </AlertDialog.Cancel>
+          <AlertDialog.Action>
+            <Button variant="classic" color="red" size="3" onClick={reset}>
+              <Text size="6">Delete everything</Text>
+            </Button>
+          </AlertDialog.Action>
+        </Flex>
+      </AlertDialog.Content>
+    </AlertDialog.Root>
+  );
+}
 
 export default function MainMenu() {
+  const [branchExplorerOpen, setBranchExplorerOpen] = useState(false);
+  const [campaignManagerOpen, setCampaignManagerOpen] = useState(false);
+  const [worldMapOpen, setWorldMapOpen] = useState(false);
+  const [lorebookOpen, setLorebookOpen] = useState(false);
+  const [resetDialogOpen, setResetDialogOpen] = useState(false);
+
+  const { view } = useStateStore(
+    useShallow((state) => ({
+      view: state.view,
+    })),
+  );
+
   return (
-    <DropdownMenu.Root>
-      <DropdownMenu.Trigger>
-        <IconButton className="fixed top-3 left-3" variant="ghost" color="gray">
-          <GiElfHelmet size="35" />
-        </IconButton>
-      </DropdownMenu.Trigger>
-
-      <DropdownMenu.Content color="gray">
-        <DropdownMenu.Item
-          onClick={() => window.open("https://github.com/p-e-w/waidrin/issues", "_blank", "noopener,noreferrer")}
-        >
-          <Text size="5">Report an issue...</Text>
-        </DropdownMenu.Item>
-        <DropdownMenu.Separator />
-        <DropdownMenu.Item color="red" onClick={reset}>
-          <Text size="5">Reset state (wipes all progress)</Text>
-        </DropdownMenu.Item>
-      </DropdownMenu.Content>
-    </DropdownMenu.Root>
+    <>
+      <DropdownMenu.Root>
+        <DropdownMenu.Trigger>
+          <IconButton className="fixed top-3 left-3" variant="ghost" color="gray">
+            <GiElfHelmet size="35" />
+          </IconButton>
+        </DropdownMenu.Trigger>
+
+        <DropdownMenu.Content color="gray">
+          {view !== "welcome" && view !== "connection" && (
+            <DropdownMenu.Item onClick={() => setCampaignManagerOpen(true)}>
+              <Text size="5">Campaigns...</Text>
+            </DropdownMenu.Item>
+          )}
+          {view === "chat" && (
+            <>
+              <DropdownMenu.Item onClick={() => setBranchExplorerOpen(true)}>
+                <Text size="5">Branches...</Text>
+              </DropdownMenu.Item>
+              <DropdownMenu.Item onClick={() => setWorldMapOpen(true)}>
+                <Text size="5">World map...</Text>
+              </DropdownMenu.Item>
+              <DropdownMenu.Item onClick={() => setLorebookOpen(true)}>
+                <Text size="5">Lorebook...</Text>
+              </DropdownMenu.Item>
+              <DropdownMenu.Sub>
+                <DropdownMenu.SubTrigger>
+                  <Text size="5">Export transcript</Text>
+                </DropdownMenu.SubTrigger>
+                <DropdownMenu.SubContent>
+                  <DropdownMenu.Item onClick={() => exportTranscript("markdown")}>
+                    <Text size="5">Markdown</Text>
+                  </DropdownMenu.Item>
+                  <DropdownMenu.Item onClick={() => exportTranscript("html")}>
+                    <Text size="5">HTML</Text>
+                  </DropdownMenu.Item>
+                  <DropdownMenu.Item onClick={() => exportTranscript("epub")}>
+                    <Text size="5">EPUB</Text>
+                  </DropdownMenu.Item>
+                </DropdownMenu.SubContent>
+              </DropdownMenu.Sub>
+            </>
+          )}
+          {view !== "welcome" && view !== "connection" && <DropdownMenu.Separator />}
+          <DropdownMenu.Item
+            onClick={() => window.open("https://github.com/p-e-w/waidrin/issues", "_blank", "noopener,noreferrer")}
+          >
+            <Text size="5">Report an issue...</Text>
+          </DropdownMenu.Item>
+          <DropdownMenu.Separator />
+          <DropdownMenu.Item color="red" onClick={() => setResetDialogOpen(true)}>
+            <Text size="5">Reset state...</Text>
+          </DropdownMenu.Item>
+        </DropdownMenu.Content>
+      </DropdownMenu.Root>
+
+      {branchExplorerOpen && <BranchExplorer onClose={() => setBranchExplorerOpen(false)} />}
+      {campaignManagerOpen && <CampaignManager onClose={() => setCampaignManagerOpen(false)} />}
+      {worldMapOpen && <WorldMap onClose={() => setWorldMapOpen(false)} />}
+      {lorebookOpen && <LorebookDialog onClose={() => setLorebookOpen(false)} />}
+      {resetDialogOpen && <ResetDialog onClose={() => setResetDialogOpen(false)} />}
+    </>
   );
 }
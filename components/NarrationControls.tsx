@@ -0,0 +1,188 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Button, Dialog, Flex, Select, Text, TextArea } from "@radix-ui/themes";
+import { Label } from "radix-ui";
+import { useState } from "react";
+import { GiPencil, GiPerspectiveDiceSixFacesRandom, GiQuillInk } from "react-icons/gi";
+import { useShallow } from "zustand/shallow";
+import { editNarration, type GenerationOptions } from "@/lib/engine";
+import * as schemas from "@/lib/schemas";
+import { useStateStore } from "@/lib/state";
+
+function EditDialog({ onClose }: { onClose: () => void }) {
+  const { text } = useStateStore(
+    useShallow((state) => ({
+      text: state.events.findLast((event) => event.type === "narration")?.text ?? "",
+    })),
+  );
+
+  const [editedText, setEditedText] = useState(text);
+
+  const valid = schemas.NarrationEvent.shape.text.safeParse(editedText).success;
+
+  return (
+    <Dialog.Root open={true} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Content maxWidth="50rem">
+        <Dialog.Title className="lowercase" size="7">
+          Edit narration
+        </Dialog.Title>
+
+        <TextArea
+          value={editedText}
+          onChange={(event) => setEditedText(event.target.value)}
+          className="h-[50vh] [&_textarea]:text-(length:--font-size-5)"
+          size="3"
+          resize="vertical"
+        />
+        <Text as="div" size="4" color="gray" mt="2">
+          Surround character names with double asterisks (**Name**) to link them.
+        </Text>
+
+        <Flex gap="3" mt="5" justify="end">
+          <Dialog.Close>
+            <Button variant="classic" color="gray" size="3">
+              <Text size="5">Cancel</Text>
+            </Button>
+          </Dialog.Close>
+          <Button
+            variant="classic"
+            size="3"
+            disabled={!valid}
+            onClick={() => {
+              editNarration(editedText);
+              onClose();
+            }}
+          >
+            <Text size="5">Save</Text>
+          </Button>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
+
+function RegenerateDialog({
+  onRegenerate,
+  onClose,
+}: {
+  onRegenerate: (options: GenerationOptions) => void;
+  onClose: () => void;
+}) {
+  const { activeBackend, backends, narrationParams } = useStateStore(
+    useShallow((state) => ({
+      activeBackend: state.activeBackend,
+      backends: state.backends,
+      narrationParams: state.narrationParams,
+    })),
+  );
+
+  const [backend, setBackend] = useState(activeBackend);
+  const [params, setParams] = useState(JSON.stringify(narrationParams, null, 2));
+
+  let parsedParams: Record<string, unknown> | undefined;
+  try {
+    parsedParams = schemas.State.shape.narrationParams.parse(JSON.parse(params));
+  } catch {
+    parsedParams = undefined;
+  }
+
+  return (
+    <Dialog.Root open={true} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Content maxWidth="40rem">
+        <Dialog.Title className="lowercase" size="7">
+          Regenerate turn
+        </Dialog.Title>
+
+        <Flex direction="column" gap="5">
+          <Label.Root>
+            <Text as="div" size="6">
+              Backend
+            </Text>
+            <Select.Root value={backend} onValueChange={setBackend} size="3">
+              <Select.Trigger className="mt-1 w-full" />
+              <Select.Content>
+                <Select.Item value="default">OpenAI-compatible</Select.Item>
+                <Select.Item value="ollama">Ollama</Select.Item>
+                <Select.Item value="kobold">KoboldCpp</Select.Item>
+                {Object.keys(backends).map((name) => (
+                  <Select.Item key={name} value={name}>
+                    {name}
+                  </Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
+          </Label.Root>
+
+          <Label.Root>
+            <Flex width="100%" justify="between" align="end">
+              <Text size="6">Narration parameters</Text>
+              <Text size="4" color={parsedParams ? "gray" : "red"}>
+                {parsedParams ? "JSON object" : "Invalid JSON object"}
+              </Text>
+            </Flex>
+            <TextArea
+              value={params}
+              onChange={(event) => setParams(event.target.value)}
+              className="mt-1 h-48 font-mono"
+              size="3"
+              resize="vertical"
+            />
+          </Label.Root>
+        </Flex>
+
+        <Flex gap="3" mt="5" justify="end">
+          <Dialog.Close>
+            <Button variant="classic" color="gray" size="3">
+              <Text size="5">Cancel</Text>
+            </Button>
+          </Dialog.Close>
+          <Button
+            variant="classic"
+            size="3"
+            disabled={!parsedParams}
+            onClick={() => {
+              onRegenerate({ backend, narrationParams: parsedParams });
+              onClose();
+            }}
+          >
+            <Text size="5">Regenerate</Text>
+          </Button>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
+
+export default function NarrationControls({
+  onRegenerate,
+  onContinue,
+}: {
+  onRegenerate: (options: GenerationOptions) => void;
+  onContinue: () => void;
+}) {
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [regenerateDialogOpen, setRegenerateDialogOpen] = useState(false);
+
+  return (
+    <Flex justify="end" px="6" pb="4" gap="3">
+      <Button variant="ghost" color="gray" onClick={() => onRegenerate({})}>
+        <GiPerspectiveDiceSixFacesRandom size="20" /> <Text size="4">Regenerate</Text>
+      </Button>
+      <Button variant="ghost" color="gray" onClick={() => setRegenerateDialogOpen(true)}>
+        <Text size="4">Regenerate with...</Text>
+      </Button>
+      <Button variant="ghost" color="gray" onClick={onContinue}>
+        <GiQuillInk size="20" /> <Text size="4">Continue</Text>
+      </Button>
+      <Button variant="ghost" color="gray" onClick={() => setEditDialogOpen(true)}>
+        <GiPencil size="20" /> <Text size="4">Edit</Text>
+      </Button>
+
+      {editDialogOpen && <EditDialog onClose={() => setEditDialogOpen(false)} />}
+      {regenerateDialogOpen && (
+        <RegenerateDialog onRegenerate={onRegenerate} onClose={() => setRegenerateDialogOpen(false)} />
+      )}
+    </Flex>
+  );
+}
@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { IconButton, Text, Tooltip, VisuallyHidden } from "@radix-ui/themes";
+import { Dialog } from "radix-ui";
+import { useState } from "react";
+import { GiKnapsack } from "react-icons/gi";
+import { RxCross2 } from "react-icons/rx";
+import ChatSidebar from "./ChatSidebar";
+
+// Makes the chat sidebar available on viewports that are too narrow
+// to show it next to the main column.
+export default function SidebarDrawer({ busy }: { busy: boolean }) {
+  // We need to manually open the dialog using a custom event handler,
+  // because the Tooltip component is incompatible with Dialog.Trigger.
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  return (
+    <Dialog.Root open={dialogOpen} onOpenChange={setDialogOpen}>
+      <Tooltip content={<Text size="5">Inventory, journal, and cast</Text>}>
+        <IconButton
+          onClick={() => setDialogOpen(true)}
+          className="fixed top-16 right-3 min-[90rem]:hidden"
+          variant="ghost"
+          color="gray"
+        >
+          <GiKnapsack size="35" />
+        </IconButton>
+      </Tooltip>
+
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-[color-mix(in_srgb,var(--color-background)_60%,transparent)]" />
+        <Dialog.Content className="fixed top-0 right-0 bottom-0 w-[24rem] max-w-full bg-black border-l border-(--gold-10)">
+          <VisuallyHidden>
+            <Dialog.Title>Inventory, journal, and cast</Dialog.Title>
+            <Dialog.Description>Items, goals, and characters of the current story</Dialog.Description>
+          </VisuallyHidden>
+
+          <ChatSidebar busy={busy} />
+
+          <Dialog.Close asChild>
+            <IconButton className="fixed top-1 right-1" variant="ghost" aria-label="Close">
+              <RxCross2 size="20" />
+            </IconButton>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -30,6 +30,7 @@ export default function StateDebugger() {
   const filteredState: Partial<StoredState> = { ...state };
   delete filteredState.plugins;
   delete filteredState.backends;
+  delete filteredState.genrePacks;
   delete filteredState.set;
   delete filteredState.setAsync;
 
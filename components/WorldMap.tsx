@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Box, Button, Dialog, Flex, Heading, ScrollArea, Text } from "@radix-ui/themes";
+import { useState } from "react";
+import Markdown from "react-markdown";
+import { useShallow } from "zustand/shallow";
+import { getWorldMap, type MapNode } from "@/lib/map";
+import { useStateStore } from "@/lib/state";
+
+// Dimensions of the SVG coordinate system.
+const width = 800;
+const height = 600;
+const nodeRadius = 18;
+const markerRadius = 5;
+
+export default function WorldMap({ onClose }: { onClose: () => void }) {
+  const { state } = useStateStore(
+    useShallow((state) => ({
+      state: state,
+    })),
+  );
+
+  const [hoveredIndex, setHoveredIndex] = useState<number | undefined>(undefined);
+  const [selectedIndex, setSelectedIndex] = useState(state.protagonist.locationIndex);
+
+  const map = getWorldMap(state);
+  const hoveredNode = hoveredIndex === undefined ? undefined : map.nodes[hoveredIndex];
+  const selectedNode = map.nodes[selectedIndex] as MapNode | undefined;
+
+  const getPosition = (node: MapNode) => [node.x * width, node.y * height];
+
+  return (
+    <Dialog.Root open={true} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Content maxWidth="90rem">
+        <Dialog.Title className="lowercase" size="7">
+          World map
+        </Dialog.Title>
+
+        <Flex gap="6">
+          <Box className="relative" width="60%" flexShrink="0">
+            <svg className="w-full h-auto" viewBox={`0 0 ${width} ${height}`} role="img">
+              <title>Map of {state.world.name}</title>
+
+              {map.edges.map(([from, to]) => {
+                const [x1, y1] = getPosition(map.nodes[from]);
+                const [x2, y2] = getPosition(map.nodes[to]);
+                return (
+                  <line key={`${from}-${to}`} x1={x1} y1={y1} x2={x2} y2={y2} stroke="var(--gold-8)" strokeWidth="2" />
+                );
+              })}
+
+              {map.nodes.map((node) => {
+                const [x, y] = getPosition(node);
+                const location = state.locations[node.locationIndex];
+                const isCurrent = node.locationIndex === state.protagonist.locationIndex;
+                const isSelected = node.locationIndex === selectedIndex;
+
+                return (
+                  // biome-ignore lint/a11y/useSemanticElements: SVG elements cannot be replaced with buttons.
+                  <g
+                    key={node.locationIndex}
+                    className="cursor-pointer"
+                    role="button"
+                    tabIndex={0}
+                    onMouseEnter={() => setHoveredIndex(node.locationIndex)}
+                    onMouseLeave={() => setHoveredIndex(undefined)}
+                    onClick={() => setSelectedIndex(node.locationIndex)}
+                    onKeyDown={(event) => event.key === "Enter" && setSelectedIndex(node.locationIndex)}
+                  >
+                    <circle
+                      cx={x}
+                      cy={y}
+                      r={nodeRadius}
+                      fill={isSelected ? "var(--orange-9)" : "var(--slate-3)"}
+                      stroke={isCurrent ? "var(--lime-9)" : "var(--orange-9)"}
+                      strokeWidth={isCurrent ? 5 : 2}
+                    />
+
+                    {/* Markers for the characters who are currently at the location. */}
+                    {node.characterIndices.map((characterIndex, index) => {
+                      const character = state.characters[characterIndex];
+                      const angle = (2 * Math.PI * index) / node.characterIndices.length - Math.PI / 2;
+                      return (
+                        <circle
+                          key={characterIndex}
+                          cx={x + (nodeRadius + 2 * markerRadius) * Math.cos(angle)}
+                          cy={y + (nodeRadius + 2 * markerRadius) * Math.sin(angle)}
+                          r={markerRadius}
+                          fill={character.status === "active" ? "var(--blue-9)" : "var(--gray-8)"}
+                        >
+                          <title>{character.name}</title>
+                        </circle>
+                      );
+                    })}
+
+                    <text
+                      x={x}
+                      y={y + nodeRadius + 4 * markerRadius + 14}
+                      textAnchor="middle"
+                      fill="var(--gray-12)"
+                      fontSize="18"
+                    >
+                      {location.name}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+
+            {hoveredNode && (
+              <Box
+                className="absolute pointer-events-none bg-(--color-panel-solid) border border-(--gold-10) rounded-(--radius-3) -translate-x-1/2"
+                style={{ left: `${hoveredNode.x * 100}%`, top: `${hoveredNode.y * 100 + 8}%` }}
+                width="24rem"
+                p="3"
+              >
+                <Heading className="lowercase" size="4" color="orange" mb="1">
+                  {state.locations[hoveredNode.locationIndex].name}
+                </Heading>
+                <Text as="div" size="3" color="gray">
+                  {hoveredNode.visits.findLast((visit) => visit.summary)?.summary ??
+                    "The scene here has not been summarized yet."}
+                </Text>
+              </Box>
+            )}
+          </Box>
+
+          {selectedNode && (
+            <ScrollArea className="h-[70vh]" scrollbars="vertical">
+              <Box pr="4">
+                <Heading className="lowercase" size="6" color="orange" mb="2">
+                  {state.locations[selectedNode.locationIndex].name}
+                </Heading>
+                <Text as="div" size="4" color="gray" mb="4">
+                  {state.locations[selectedNode.locationIndex].description}
+                </Text>
+
+                {selectedNode.characterIndices.length > 0 && (
+                  <Text as="div" size="4" mb="4">
+                    Present: {selectedNode.characterIndices.map((index) => state.characters[index].name).join(", ")}
+                  </Text>
+                )}
+
+                {selectedNode.visits.map((visit) => (
+                  <Box key={visit.sceneNumber} mb="5">
+                    <Heading className="lowercase" size="4" mb="2">
+                      Scene {visit.sceneNumber}
+                    </Heading>
+                    {visit.narrations.map((narration, index) => (
+                      // biome-ignore lint/suspicious/noArrayIndexKey: The list is read-only, so this is valid.
+                      <Box key={index} className="text-(length:--font-size-4) [&_p]:mb-[0.7em]">
+                        <Markdown>{narration}</Markdown>
+                      </Box>
+                    ))}
+                  </Box>
+                ))}
+              </Box>
+            </ScrollArea>
+          )}
+        </Flex>
+
+        <Flex justify="end" mt="5">
+          <Dialog.Close>
+            <Button variant="classic" color="gray" size="3">
+              <Text size="5">Close</Text>
+            </Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
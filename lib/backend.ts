@@ -4,13 +4,20 @@
 import { current, isDraft } from "immer";
 import OpenAI from "openai";
 import * as z from "zod/v4";
+import { generateObject } from "./json";
+import { KoboldBackend } from "./kobold";
+import { OllamaBackend } from "./ollama";
 import type { Prompt } from "./prompts";
 import { getState } from "./state";
+import { createCalibratedTokenizer, type Tokenizer } from "./tokenizers";
 
-export type TokenCallback = (token: string, count: number) => void;
+// When generating objects, invalid responses are retried, in which case
+// the attempt number is provided (starting from 1 for the first attempt).
+export type TokenCallback = (token: string, count: number, attempt?: number) => void;
 
 export interface Backend {
-  getNarration(prompt: Prompt, onToken?: TokenCallback): Promise<string>;
+  // If params are provided, they are used instead of the narration parameters from the settings.
+  getNarration(prompt: Prompt, onToken?: TokenCallback, params?: Record<string, unknown>): Promise<string>;
 
   getObject<Schema extends z.ZodType, Type extends z.infer<Schema>>(
     prompt: Prompt,
@@ -21,19 +28,59 @@ export interface Backend {
   abort(): void;
 
   isAbortError(error: unknown): boolean;
+
+  // Optional. Returns a tokenizer matching the model, or undefined if none is available.
+  getTokenizer?(): Promise<Tokenizer | undefined>;
+
+  // Optional. Returns the names of the models available on the server.
+  getModels?(): Promise<string[]>;
+
+  // Optional. Returns the name of the model used for generation, or undefined if it is unknown.
+  getModelName?(): Promise<string | undefined>;
+
+  // Optional. Returns the context length of the selected model, or undefined if it cannot be determined.
+  getContextLength?(): Promise<number | undefined>;
 }
 
 export interface DefaultBackendSettings {
   apiUrl: string;
   apiKey: string;
   model: string;
+  maxObjectAttempts: number;
   generationParams: Record<string, unknown>;
   narrationParams: Record<string, unknown>;
 }
 
+// Model metadata returned by the /models endpoint, beyond what the OpenAI API specifies.
+// Each inference engine and provider reports the context length differently.
+const ModelMetadata = z.object({
+  id: z.string(),
+  // vLLM
+  max_model_len: z.int().optional(),
+  // OpenRouter, LM Studio, and others
+  context_length: z.int().optional(),
+  // Groq and others
+  context_window: z.int().optional(),
+});
+
+// Returns text from the story that is representative of what prompts consist of.
+function getTokenizerSample(): string {
+  const state = getState();
+
+  const narrations = state.events
+    .filter((event) => event.type === "narration")
+    .slice(-5)
+    .map((event) => event.text);
+
+  return [state.world.description, state.protagonist.biography, ...narrations].join("\n\n").slice(-4000);
+}
+
 export class DefaultBackend implements Backend {
   controller = new AbortController();
 
+  // The tokenizer is calibrated once per server and model.
+  tokenizerCache?: { key: string; tokenizer: Promise<Tokenizer | undefined> };
+
   // Can be overridden by subclasses to provide custom settings.
   getSettings(): DefaultBackendSettings {
     return getState();
@@ -143,8 +190,8 @@ export class DefaultBackend implements Backend {
     return response;
   }
 
-  async getNarration(prompt: Prompt, onToken?: TokenCallback): Promise<string> {
-    return await this.getResponse(prompt, this.getSettings().narrationParams, onToken);
+  async getNarration(prompt: Prompt, onToken?: TokenCallback, params?: Record<string, unknown>): Promise<string> {
+    return await this.getResponse(prompt, params ?? this.getSettings().narrationParams, onToken);
   }
 
   async getObject<Schema extends z.ZodType, Type extends z.infer<Schema>>(
@@ -152,23 +199,28 @@ export class DefaultBackend implements Backend {
     schema: Schema,
     onToken?: TokenCallback,
   ): Promise<Type> {
-    const response = await this.getResponse(
-      prompt,
-      {
-        ...this.getSettings().generationParams,
-        response_format: {
-          type: "json_schema",
-          json_schema: {
-            name: "schema",
-            strict: true,
-            schema: z.toJSONSchema(schema),
-          },
+    const settings = this.getSettings();
+
+    const params = {
+      ...settings.generationParams,
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "schema",
+          strict: true,
+          schema: z.toJSONSchema(schema),
         },
       },
+    };
+
+    // Not all backends enforce schemas strictly, so responses may need to be repaired or retried.
+    return await generateObject(
+      prompt,
+      schema,
+      settings.maxObjectAttempts,
+      (prompt, onToken) => this.getResponse(prompt, params, onToken),
       onToken,
     );
-
-    return schema.parse(JSON.parse(response)) as Type;
   }
 
   abort(): void {
@@ -178,11 +230,129 @@ export class DefaultBackend implements Backend {
   isAbortError(error: unknown): boolean {
     return error instanceof OpenAI.APIUserAbortError;
   }
+
+  async getModelName(): Promise<string | undefined> {
+    return this.getSettings().model || undefined;
+  }
+
+  async getModels(): Promise<string[]> {
+    const models: string[] = [];
+
+    for await (const model of this.getClient().models.list({ timeout: 10000, maxRetries: 0 })) {
+      models.push(model.id);
+    }
+
+    return models;
+  }
+
+  async getContextLength(): Promise<number | undefined> {
+    const settings = this.getSettings();
+
+    const models = [];
+    for await (const model of this.getClient().models.list({ timeout: 10000, maxRetries: 0 })) {
+      const result = ModelMetadata.safeParse(model);
+      if (result.success) {
+        models.push(result.data);
+      }
+    }
+
+    // Servers that serve a single model (e.g. llama.cpp) don't require the model to be specified.
+    const model = models.find((model) => model.id === settings.model) ?? (models.length === 1 ? models[0] : undefined);
+    const contextLength = model?.max_model_len ?? model?.context_length ?? model?.context_window;
+
+    if (contextLength) {
+      return contextLength;
+    }
+
+    // The llama.cpp server reports the context size it was started with
+    // at the /props endpoint, which is located at the server root.
+    const response = await fetch(new URL("/props", settings.apiUrl), { signal: AbortSignal.timeout(10000) });
+
+    if (!response.ok) {
+      return undefined;
+    }
+
+    const props = z
+      .object({
+        default_generation_settings: z.object({
+          n_ctx: z.int().optional(),
+        }),
+      })
+      .safeParse(await response.json());
+
+    return props.data?.default_generation_settings.n_ctx;
+  }
+
+  // Uses the /tokenize endpoint provided by the llama.cpp server and vLLM,
+  // which is located at the server root rather than under the API base URL.
+  async getTokenizer(): Promise<Tokenizer | undefined> {
+    const settings = this.getSettings();
+    const key = `${settings.apiUrl} ${settings.model}`;
+
+    if (this.tokenizerCache?.key !== key) {
+      const sample = getTokenizerSample();
+
+      const tokenizer = (async () => {
+        const response = await fetch(new URL("/tokenize", settings.apiUrl), {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+          },
+          // llama.cpp expects "content", vLLM expects "model" and "prompt".
+          body: JSON.stringify({ model: settings.model, content: sample, prompt: sample }),
+          signal: AbortSignal.timeout(10000),
+        });
+
+        if (!response.ok) {
+          return undefined;
+        }
+
+        const result = z
+          .object({
+            tokens: z.unknown().array(),
+            count: z.int().optional(),
+          })
+          .parse(await response.json());
+
+        return createCalibratedTokenizer(sample, result.count ?? result.tokens.length);
+      })();
+
+      // Failures are not cached, so the endpoint is queried again next time
+      // (the sample might have been too short, or the server might have been unreachable).
+      const uncache = () => {
+        if (this.tokenizerCache?.tokenizer === tokenizer) {
+          this.tokenizerCache = undefined;
+        }
+      };
+      tokenizer.then((result) => result || uncache(), uncache);
+
+      this.tokenizerCache = { key, tokenizer };
+    }
+
+    return await this.tokenizerCache.tokenizer;
+  }
 }
 
 const defaultBackend = new DefaultBackend();
 
-export function getBackend(): Backend {
+// Backends that are available without plugins, by name.
+// Unknown names fall back to the default backend.
+const builtInBackends: Record<string, Backend> = {
+  ollama: new OllamaBackend(),
+  kobold: new KoboldBackend(),
+};
+
+// Returns the backend with the given name, or the active backend if no name is given.
+export function getBackend(name?: string): Backend {
   const state = getState();
-  return Object.hasOwn(state.backends, state.activeBackend) ? state.backends[state.activeBackend] : defaultBackend;
+  const backendName = name ?? state.activeBackend;
+
+  if (Object.hasOwn(state.backends, backendName)) {
+    return state.backends[backendName];
+  } else if (Object.hasOwn(builtInBackends, backendName)) {
+    return builtInBackends[backendName];
+  } else {
+    return defaultBackend;
+  }
 }
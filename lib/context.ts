@@ -1,7 +1,9 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Copyright (C) 2025  bubbltaco
 
-import type { LocationChangeEvent, NarrationEvent, State } from "./state";
+import { escapeRegExp } from "lodash";
+import type { Chapter, LocationChangeEvent, NarrationEvent, State } from "./state";
+import { countTokens } from "./tokenizers";
 
 // Type that represents each scene in context
 interface Scene {
@@ -11,6 +13,11 @@ interface Scene {
   summary?: string;
   // whether to use the scene summary in the context or not
   summarize: boolean;
+  // index of the scene after the last one covered by this entry
+  // (entries can cover several scenes once they have been merged into chapters)
+  endSceneIndex: number;
+  // whether the entry must never be removed from the context
+  keep?: boolean;
 }
 
 /**
@@ -42,7 +49,19 @@ export function getContext(state: State, tokenBudget: number): string {
     return convertContextToText(context);
   }
 
-  // Step 3: Remove oldest scenes until we're under budget
+  // Step 3: Replace runs of scene summaries with their chapter summaries (oldest chapters first)
+  context = replaceScenesWithChapters(context, state.chapters, tokenBudget);
+  if (isContextWithinBudget(context, tokenBudget)) {
+    return convertContextToText(context);
+  }
+
+  // Step 4: Replace all chapters with the synopsis of the story up to the end of the latest chapter
+  context = replaceChaptersWithSynopsis(context, state.chapters);
+  if (isContextWithinBudget(context, tokenBudget)) {
+    return convertContextToText(context);
+  }
+
+  // Step 5: Remove oldest scenes until we're under budget (the synopsis is always kept)
   context = removeOldestScenes(context, tokenBudget);
   // if we're still not able to fit within budget (just the current scene takes up more than the budget) throw an error
   if (!isContextWithinBudget(context, tokenBudget)) {
@@ -52,6 +71,44 @@ export function getContext(state: State, tokenBudget: number): string {
   return convertContextToText(context);
 }
 
+/**
+ * Get the lorebook entries whose keywords appear in the most recent narrations or the player's latest action,
+ * converted to text, as far as they fit into the token budget.
+ * Entries are included in lorebook order, so entries further up take precedence.
+ * @param state The current state.
+ * @param tokenBudget The token budget.
+ * @returns The triggered entries as a string, or an empty string if no entries were triggered.
+ */
+export function getLore(state: State, tokenBudget: number): string {
+  // the player's latest action and the 3 most recent narrations determine which entries are relevant
+  const recentText = state.events
+    .filter((event) => event.type === "narration" || event.type === "action")
+    .slice(-4)
+    .map((event) => (event.type === "narration" ? event.text : event.action))
+    .join("\n\n");
+
+  const entries: string[] = [];
+  let remainingTokens = tokenBudget;
+
+  for (const entry of state.lorebook) {
+    const triggered = entry.keywords.some((keyword) =>
+      new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}])`, "iu").test(recentText),
+    );
+
+    if (triggered) {
+      const text = `${entry.title}: ${entry.content}`;
+      const tokens = countTokens(text);
+
+      if (tokens <= remainingTokens) {
+        entries.push(text);
+        remainingTokens -= tokens;
+      }
+    }
+  }
+
+  return entries.join("\n\n");
+}
+
 /**
  * Create the initial context without any compression.
  * @param events events that should go in the context
@@ -77,6 +134,7 @@ function createInitialContext(events: (NarrationEvent | LocationChangeEvent)[],
           text: sceneText,
           summary: event.summary, // the summary for the previous scene is stored in this location change event
           summarize: false, // Initially all scenes use full text
+          endSceneIndex: scenes.length + 1,
         });
       }
 
@@ -95,6 +153,7 @@ function createInitialContext(events: (NarrationEvent | LocationChangeEvent)[],
       text: sceneText,
       summary: undefined, // The last scene doesn't have a summary yet
       summarize: false,
+      endSceneIndex: scenes.length + 1,
     });
   }
 
@@ -145,20 +204,76 @@ function replaceScenesWithSummaries(context: Scene[], tokenBudget: number): Scen
   return scenes;
 }
 
+/**
+ * Replace the scenes of the oldest chapters with the chapter summaries.
+ * Chapters only ever contain completed scenes, so the latest scene is never replaced.
+ * @param context The current context.
+ * @param chapters The chapters of the story, in order.
+ * @param tokenBudget The token budget.
+ * @returns Updated context.
+ */
+function replaceScenesWithChapters(context: Scene[], chapters: Chapter[], tokenBudget: number): Scene[] {
+  let scenes = [...context];
+  let startSceneIndex = 0;
+
+  for (const chapter of chapters) {
+    scenes = [
+      ...scenes.filter((scene) => scene.endSceneIndex <= startSceneIndex),
+      { text: chapter.summary, summarize: false, endSceneIndex: chapter.endSceneIndex },
+      ...scenes.filter((scene) => scene.endSceneIndex > chapter.endSceneIndex),
+    ];
+
+    // Check if we're now within budget
+    if (isContextWithinBudget(scenes, tokenBudget)) {
+      break;
+    }
+
+    startSceneIndex = chapter.endSceneIndex;
+  }
+
+  return scenes;
+}
+
+/**
+ * Replace all chapters with the synopsis stored in the latest chapter,
+ * which summarizes the entire story up to the end of that chapter.
+ * The synopsis is marked so that it is never removed from the context.
+ * @param context The current context.
+ * @param chapters The chapters of the story, in order.
+ * @returns Updated context.
+ */
+function replaceChaptersWithSynopsis(context: Scene[], chapters: Chapter[]): Scene[] {
+  const latestChapter = chapters.at(-1);
+
+  if (!latestChapter) {
+    return context;
+  }
+
+  return [
+    { text: latestChapter.synopsis, summarize: false, endSceneIndex: latestChapter.endSceneIndex, keep: true },
+    ...context.filter((scene) => scene.endSceneIndex > latestChapter.endSceneIndex),
+  ];
+}
+
 /**
  * Remove oldest scenes until we're under the token budget.
  * Assume that at this point, all scenes except the most recent have been replaced with their summaries,
- * So this will keep removing the oldest summaries until the most recent scene.
+ * and all chapters with the synopsis, so this will keep removing the oldest summaries after the synopsis
+ * until the most recent scene.
  * @param context The current context.
  * @param tokenBudget The token budget.
  * @returns Updated context.
  */
 function removeOldestScenes(context: Scene[], tokenBudget: number): Scene[] {
-  let scenes = [...context];
+  const scenes = [...context];
 
   // Remove oldest scenes until we fit within budget or only have the current scene left
-  while (scenes.length > 1 && !isContextWithinBudget(scenes, tokenBudget)) {
-    scenes = scenes.slice(1); // Remove the oldest scene (first element)
+  while (!isContextWithinBudget(scenes, tokenBudget)) {
+    const index = scenes.findIndex((scene) => !scene.keep);
+    if (index < 0 || index === scenes.length - 1) {
+      break;
+    }
+    scenes.splice(index, 1); // Remove the oldest scene that may be removed
   }
 
   return scenes;
@@ -172,8 +287,7 @@ function removeOldestScenes(context: Scene[], tokenBudget: number): Scene[] {
  */
 function isContextWithinBudget(context: Scene[], tokenBudget: number): boolean {
   const totalTokens = context.reduce(
-    (sum: number, scene) =>
-      sum + getApproximateTokenCount(scene.summarize && scene.summary ? scene.summary : scene.text),
+    (sum: number, scene) => sum + countTokens(scene.summarize && scene.summary ? scene.summary : scene.text),
     0,
   );
   return totalTokens <= tokenBudget;
@@ -190,7 +304,9 @@ export function convertLocationChangeEventToText(event: LocationChangeEvent, sta
   const cast = event.presentCharacterIndices
     .map((index) => {
       const character = state.characters[index];
-      return `${character.name}: ${character.biography}`;
+      // The status is the current one, which may have changed since the location change.
+      const name = character.status === "active" ? character.name : `${character.name} (now ${character.status})`;
+      return `${name}: ${character.biography}`;
     })
     .join("\n\n");
 
@@ -215,13 +331,3 @@ ${cast}
 function convertContextToText(scenes: Scene[]): string {
   return scenes.map((scene) => (scene.summarize && scene.summary ? scene.summary : scene.text)).join("\n\n");
 }
-
-/**
- * Estimates the number of tokens in a text string assuming 3 characters per token and rounding up.
- * @param text The text to analyze.
- * @returns The estimated token count.
- */
-export function getApproximateTokenCount(text: string): number {
-  const numCharacters = text.length;
-  return Math.ceil(numCharacters / 3);
-}
@@ -0,0 +1,206 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import OpenAI from "openai";
+import * as z from "zod/v4";
+import type { Backend } from "./backend";
+
+export type DiagnosticStatus = "pending" | "ok" | "warning" | "error" | "skipped";
+
+export interface Diagnostic {
+  title: string;
+  status: DiagnosticStatus;
+  message: string;
+}
+
+// Number of tokens after which the streaming test is stopped.
+const streamingTestTokens = 5;
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return z.prettifyError(error);
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
+
+function getStatusCode(error: unknown): number | undefined {
+  return error instanceof OpenAI.APIError ? error.status : undefined;
+}
+
+// Browsers report all network-level failures (including CORS violations) as TypeErrors,
+// without further details.
+function isConnectionError(error: unknown): boolean {
+  return error instanceof OpenAI.APIConnectionError || error instanceof TypeError;
+}
+
+function isAuthError(error: unknown): boolean {
+  const status = getStatusCode(error);
+  return status === 401 || status === 403;
+}
+
+/**
+ * Tests the connection to a backend step by step, so that problems can be pinpointed.
+ * Tests that depend on a failed test are skipped.
+ * @param backend The backend to test.
+ * @param onUpdate Function called with the current results whenever a test starts or finishes.
+ * @returns The results of all tests.
+ */
+export async function diagnoseBackend(
+  backend: Backend,
+  onUpdate?: (diagnostics: Diagnostic[]) => void,
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [
+    { title: "Server reachable", status: "pending", message: "" },
+    { title: "Authentication", status: "pending", message: "" },
+    { title: "Streaming", status: "pending", message: "" },
+    { title: "JSON schema support", status: "pending", message: "" },
+  ];
+
+  const [reachability, authentication, streaming, schemaSupport] = diagnostics;
+
+  const update = (diagnostic: Diagnostic, status: DiagnosticStatus, message: string) => {
+    diagnostic.status = status;
+    diagnostic.message = message;
+    onUpdate?.(diagnostics.map((diagnostic) => ({ ...diagnostic })));
+  };
+
+  const skipRemaining = (message: string) => {
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.status === "pending") {
+        update(diagnostic, "skipped", message);
+      }
+    }
+  };
+
+  // Reachability and authentication are tested by listing the available models,
+  // which is cheap, and doesn't depend on the model being set correctly.
+  if (backend.getModels) {
+    try {
+      const models = await backend.getModels();
+      update(reachability, "ok", `Server responded with ${models.length} available model(s).`);
+      update(authentication, "ok", "Server accepted the request.");
+    } catch (error) {
+      if (isConnectionError(error)) {
+        update(
+          reachability,
+          "error",
+          "Could not connect to the server. Make sure that it is running and that the URL is correct. " +
+            "If the server runs on a different host than Waidrin, it must be listening on the network " +
+            "(not just localhost), and must allow cross-origin requests (CORS).",
+        );
+        skipRemaining("Requires a reachable server.");
+        return diagnostics;
+      } else if (isAuthError(error)) {
+        update(reachability, "ok", "Server responded.");
+        update(
+          authentication,
+          "error",
+          `The server rejected the request (${getStatusCode(error)}). Make sure that the API key is correct, ` +
+            "has not expired, and has access to the model.",
+        );
+        skipRemaining("Requires successful authentication.");
+        return diagnostics;
+      } else if (getStatusCode(error) === 404) {
+        update(
+          reachability,
+          "warning",
+          "The server responded, but has no model list endpoint. Make sure that the URL is the API base URL " +
+            "(usually ending with /v1/), not the URL of a specific endpoint or of a web interface.",
+        );
+      } else {
+        update(reachability, "warning", `The server responded, but listing models failed: ${getErrorMessage(error)}`);
+      }
+
+      update(authentication, "skipped", "Could not be tested separately; see the results below.");
+    }
+  } else {
+    update(reachability, "skipped", "This backend cannot list models; see the results below.");
+    update(authentication, "skipped", "This backend cannot list models; see the results below.");
+  }
+
+  let tokenCount = 0;
+  let aborted = false;
+
+  try {
+    await backend.getNarration({ system: "You are a helpful assistant.", user: "Count from 1 to 20." }, (_, count) => {
+      tokenCount = count;
+
+      // Only the first few tokens are needed to confirm that streaming works.
+      if (count >= streamingTestTokens && !aborted) {
+        aborted = true;
+        backend.abort();
+      }
+    });
+  } catch (error) {
+    if (!backend.isAbortError(error)) {
+      if (isConnectionError(error)) {
+        update(
+          reachability,
+          "error",
+          "Could not connect to the server. Make sure that it is running and that the URL is correct.",
+        );
+        skipRemaining("Requires a reachable server.");
+      } else if (isAuthError(error)) {
+        update(authentication, "error", "The server rejected the request. Make sure that the API key is correct.");
+        skipRemaining("Requires successful authentication.");
+      } else {
+        update(
+          streaming,
+          "error",
+          `Generating text failed: ${getErrorMessage(error)}. Make sure that the model name is correct ` +
+            "and that the model is loaded or can be loaded by the server.",
+        );
+        skipRemaining("Requires successful text generation.");
+      }
+
+      return diagnostics;
+    }
+  }
+
+  if (reachability.status === "skipped") {
+    update(reachability, "ok", "Server responded.");
+  }
+
+  if (authentication.status === "skipped") {
+    update(authentication, "ok", "Server accepted the request.");
+  }
+
+  if (tokenCount > 1) {
+    update(streaming, "ok", "Tokens are streamed as they are generated.");
+  } else if (tokenCount === 1) {
+    update(
+      streaming,
+      "warning",
+      "The server returned the response as a single chunk. Waidrin will work, but cannot show progress " +
+        "during generation. If there is a proxy between Waidrin and the server, make sure it doesn't buffer responses.",
+    );
+  } else {
+    update(
+      streaming,
+      "warning",
+      "The server returned an empty response. Make sure that the model is a chat or instruction-tuned model, " +
+        "and that the generation parameters don't prevent it from generating text.",
+    );
+  }
+
+  try {
+    const testObject = await backend.getObject({ system: "test", user: "test" }, z.literal("waidrin"));
+
+    if (testObject === "waidrin") {
+      update(schemaSupport, "ok", "Generation is constrained to the requested schema.");
+    } else {
+      throw new Error(`Unexpected response ${JSON.stringify(testObject)}`);
+    }
+  } catch (error) {
+    update(
+      schemaSupport,
+      "error",
+      `The response did not match the requested schema (${getErrorMessage(error)}). The server probably ignores ` +
+        "schema constraints. Use a server that supports JSON schemas (such as llama.cpp or Ollama), enable structured " +
+        "outputs in the provider settings, or use the KoboldCpp backend, which uses grammars instead.",
+    );
+  }
+
+  return diagnostics;
+}
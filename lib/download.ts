@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+/**
+ * Makes the browser download the given content as a file.
+ * @param content The file content.
+ * @param fileName The suggested file name.
+ * @param type The MIME type of the file.
+ */
+export function downloadFile(content: BlobPart, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Turns an arbitrary name into something that can safely be used in a file name.
+export function getFileNameSlug(name: string): string {
+  const slug = name
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-|-$/g, "")
+    .toLowerCase();
+  return slug || "untitled";
+}
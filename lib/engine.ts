@@ -1,13 +1,18 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
 
-import { current } from "immer";
+import { current, type WritableDraft } from "immer";
 import { throttle } from "lodash";
 import * as z from "zod/v4";
-import { getBackend } from "./backend";
+import { type Backend, getBackend, type TokenCallback } from "./backend";
+import { getGenrePack } from "./genres";
+import * as history from "./history";
 import {
   checkIfSameLocationPrompt,
+  chooseDestinationPrompt,
+  continueNarrationPrompt,
   generateActionsPrompt,
+  generateLorebookPrompt,
   generateNewCharactersPrompt,
   generateNewLocationPrompt,
   generateProtagonistPrompt,
@@ -16,31 +21,98 @@ import {
   generateWorldPrompt,
   narratePrompt,
   type Prompt,
+  summarizeChapterPrompt,
   summarizeScenePrompt,
+  trackChangesPrompt,
+  updateSynopsisPrompt,
 } from "./prompts";
+import { removeAllCampaigns } from "./saves";
 import * as schemas from "./schemas";
-import { getState, initialState, type Location, type LocationChangeEvent, type NarrationEvent } from "./state";
+import {
+  type Character,
+  getState,
+  initialState,
+  type Location,
+  type LocationChangeEvent,
+  type NarrationEvent,
+  type State,
+  type StoredState,
+} from "./state";
+import { loadTokenizer } from "./tokenizers";
+
+// When generating a character, the location isn't determined yet,
+// and everything that is tracked during the story starts out empty.
+const RawCharacter = schemas.Character.omit({
+  locationIndex: true,
+  items: true,
+  relationship: true,
+  status: true,
+  pinned: true,
+});
+
+// Constrain generated races and location types to those of the genre.
+function getCharacterSchema(state: State) {
+  return RawCharacter.extend({ race: z.enum(getGenrePack(state.genre).races.map((race) => race.id)) });
+}
 
-// When generating a character, the location isn't determined yet.
-const RawCharacter = schemas.Character.omit({ locationIndex: true });
+function createCharacter(character: z.infer<typeof RawCharacter>, locationIndex: number): Character {
+  return {
+    ...character,
+    locationIndex,
+    items: [],
+    relationship: { score: 0, notes: [] },
+    status: "active",
+    pinned: false,
+  };
+}
 
-async function getBoolean(prompt: Prompt, onToken?: (token: string, count: number) => void): Promise<boolean> {
-  return (await getBackend().getObject(prompt, z.enum(["yes", "no"]), onToken)) === "yes";
+function getLocationSchema(state: State) {
+  return schemas.Location.extend({ type: z.enum(getGenrePack(state.genre).locationTypes.map((type) => type.id)) });
 }
 
-export async function next(
-  action?: string,
-  onProgress?: (title: string, message: string, tokenCount: number) => void,
+export type ProgressCallback = (title: string, message: string, tokenCount: number) => void;
+
+export interface GenerationOptions {
+  // Name of a backend to use instead of the active backend.
+  backend?: string;
+  // Parameters to use for narration instead of those from the backend settings.
+  narrationParams?: Record<string, unknown>;
+}
+
+// Shared context of a state machine operation running inside setAsync.
+interface Operation {
+  state: WritableDraft<StoredState>;
+  backend: Backend;
+  options: GenerationOptions;
+  // Title and message of the current step, for progress reporting.
+  step: [string, string];
+  onToken: TokenCallback;
+  updateState: () => void;
+}
+
+// The backend used by the most recent operation. This is the backend that must be aborted,
+// and whose errors must be checked, which is not necessarily the active backend.
+let operationBackend: Backend | undefined;
+
+async function getBoolean(backend: Backend, prompt: Prompt, onToken?: TokenCallback): Promise<boolean> {
+  return (await backend.getObject(prompt, z.enum(["yes", "no"]), onToken)) === "yes";
+}
+
+async function runOperation(
+  onProgress: ProgressCallback | undefined,
+  options: GenerationOptions,
+  body: (operation: Operation) => Promise<void>,
 ): Promise<void> {
-  const backend = getBackend();
+  const backend = getBackend(options.backend);
+  operationBackend = backend;
 
   await getState().setAsync(async (state) => {
-    let step: [string, string];
-
     const onToken = throttle(
-      (_token: string, count: number) => {
+      (_token: string, count: number, attempt?: number) => {
         if (onProgress) {
-          onProgress(step[0], step[1], count);
+          const message =
+            attempt && attempt > 1 ? `The response was invalid, retrying (attempt ${attempt})` : operation.step[1];
+          onProgress(operation.step[0], message, count);
         }
       },
       state.updateInterval,
@@ -56,207 +128,613 @@ export async function next(
       { leading: true, trailing: true },
     );
 
-    const onLocationChange = async (newLocation: Location) => {
-      for (const plugin of state.plugins) {
-        if (plugin.enabled && plugin.plugin && plugin.plugin.onLocationChange) {
-          await plugin.plugin.onLocationChange(newLocation, state);
-        }
-      }
+    const operation: Operation = {
+      state,
+      backend,
+      options,
+      step: ["", ""],
+      onToken,
+      updateState,
     };
 
-    const narrate = async (action?: string) => {
-      const event: NarrationEvent = {
-        type: "narration",
-        text: "",
-        locationIndex: state.protagonist.locationIndex,
-        referencedCharacterIndices: [],
-      };
+    try {
+      // Token counts are needed for building prompts, which happens synchronously.
+      await loadTokenizer(state.tokenizer, backend);
 
-      state.events.push(event);
+      // Validate state before processing to avoid wasting
+      // time and tokens on requests for invalid states.
+      schemas.State.parse(state);
 
-      step = ["Narrating", ""];
-      event.text = await backend.getNarration(narratePrompt(state, action), (token: string, count: number) => {
-        event.text += token;
-        onToken(token, count);
-        updateState();
-      });
+      await body(operation);
 
-      const referencedCharacterIndices = new Set<number>();
+      // Validate state before returning to prevent
+      // invalid states being committed to the store.
+      schemas.State.parse(state);
+    } finally {
+      // Cancel any pending partial updates to avoid confusing the frontend
+      // by a partial update arriving after the function returns.
+      onToken.cancel();
+      updateState.cancel();
+    }
+  });
+}
 
-      // Character names in the text are surrounded with double asterisks
-      // in accordance with the prompt instructions.
-      for (const match of event.text.matchAll(/\*\*(.+?)(?:'s?)?\*\*/g)) {
-        const name = match[1];
+async function onLocationChange(operation: Operation, newLocation: Location): Promise<void> {
+  for (const plugin of operation.state.plugins) {
+    if (plugin.enabled && plugin.plugin && plugin.plugin.onLocationChange) {
+      await plugin.plugin.onLocationChange(newLocation, operation.state);
+    }
+  }
+}
 
-        for (const [index, character] of state.characters.entries()) {
-          if (character.name === name || character.name.split(" ")[0] === name) {
-            referencedCharacterIndices.add(index);
-            break;
-          }
-        }
+// Determines which characters are referenced in a narration event, and introduces
+// those that haven't been introduced before. Introductions that were previously
+// added after the event for characters that are no longer referenced are removed,
+// which keeps the events consistent if the text of the event is changed.
+function updateCharacterReferences(state: WritableDraft<State>, event: NarrationEvent): void {
+  const referencedCharacterIndices = new Set<number>();
+
+  // Character names in the text are surrounded with double asterisks
+  // in accordance with the prompt instructions.
+  for (const match of event.text.matchAll(/\*\*(.+?)(?:'s?)?\*\*/g)) {
+    const name = match[1];
+
+    for (const [index, character] of state.characters.entries()) {
+      if (character.name === name || character.name.split(" ")[0] === name) {
+        referencedCharacterIndices.add(index);
+        break;
       }
+    }
+  }
+
+  event.referencedCharacterIndices = Array.from(referencedCharacterIndices);
+
+  const eventIndex = state.events.indexOf(event);
+
+  state.events = state.events.filter(
+    (otherEvent, index) =>
+      index <= eventIndex ||
+      otherEvent.type !== "character_introduction" ||
+      referencedCharacterIndices.has(otherEvent.characterIndex),
+  );
+
+  const introducedCharacterIndices = new Set(
+    state.events.filter((event) => event.type === "character_introduction").map((event) => event.characterIndex),
+  );
 
-      event.referencedCharacterIndices = Array.from(referencedCharacterIndices);
+  for (const characterIndex of event.referencedCharacterIndices) {
+    if (!introducedCharacterIndices.has(characterIndex)) {
+      state.events.push({
+        type: "character_introduction",
+        characterIndex,
+      });
+    }
+  }
+}
 
-      const introducedCharacterIndices = new Set(
-        state.events.filter((event) => event.type === "character_introduction").map((event) => event.characterIndex),
+async function narrate(operation: Operation, action?: string): Promise<void> {
+  const { state, backend, options, onToken, updateState } = operation;
+
+  const event: NarrationEvent = {
+    type: "narration",
+    text: "",
+    locationIndex: state.protagonist.locationIndex,
+    referencedCharacterIndices: [],
+  };
+
+  state.events.push(event);
+
+  operation.step = ["Narrating", ""];
+  event.text = await backend.getNarration(
+    narratePrompt(state, action),
+    (token: string, count: number) => {
+      event.text += token;
+      onToken(token, count);
+      updateState();
+    },
+    options.narrationParams,
+  );
+
+  updateCharacterReferences(state, event);
+  updateState();
+
+  await trackChanges(operation, event.text, event.referencedCharacterIndices);
+}
+
+// Only the most recent notes are kept, as the relationship score reflects the overall history.
+const maxRelationshipNotes = 10;
+
+// Updates the state that is tracked alongside the narration (inventories, quests, relationships,
+// and statuses), based on newly narrated text that references the given characters.
+// All changes are extracted with a single request, as each request processes the full context.
+async function trackChanges(operation: Operation, narration: string, characterIndices: number[]): Promise<void> {
+  const { state, backend, onToken } = operation;
+
+  const characters = characterIndices.map((index) => state.characters[index]);
+  const characterNames = characters.map((character) => character.name);
+  // Enums must not be empty. If there are no characters, the arrays are limited to zero elements instead.
+  const characterName = characterNames.length > 0 ? z.enum(characterNames) : z.string();
+
+  // The protagonist has an inventory, but no relationship or status.
+  const owners = [state.protagonist, ...characters];
+  const ownerNames = owners.map((character) => character.name);
+
+  const activeQuests = state.quests.filter((quest) => quest.status === "active");
+
+  const schema = z.object({
+    gainedItems: z
+      .object({
+        owner: z.enum(ownerNames),
+        item: schemas.Item,
+      })
+      .array()
+      .max(10),
+    lostItems: z
+      .object({
+        owner: z.enum(ownerNames),
+        itemName: schemas.Item.shape.name,
+      })
+      .array()
+      .max(10),
+    newQuests: schemas.Quest.omit({ status: true }).array().max(3),
+    finishedQuests: z
+      .object({
+        title: schemas.Quest.shape.title,
+        status: z.enum(["completed", "failed"]),
+      })
+      .array()
+      .max(activeQuests.length),
+    relationshipChanges: z
+      .object({
+        name: characterName,
+        scoreChange: z.int().min(-30).max(30),
+        note: schemas.Relationship.shape.notes.element.optional(),
+      })
+      .array()
+      .max(characters.length),
+    statusChanges: z
+      .object({
+        name: characterName,
+        status: schemas.CharacterStatus,
+      })
+      .array()
+      .max(characters.length),
+  });
+
+  operation.step = ["Updating story state", "This typically takes between 5 and 20 seconds"];
+  const changes = await backend.getObject(trackChangesPrompt(state, narration, characterNames), schema, onToken);
+
+  for (const { owner, itemName } of changes.lostItems) {
+    const character = owners[ownerNames.indexOf(owner)];
+    // Lost items that the character doesn't have are ignored.
+    const index = character.items.findIndex((item) => item.name.toLowerCase() === itemName.toLowerCase());
+    if (index >= 0) {
+      character.items.splice(index, 1);
+    }
+  }
+
+  for (const { owner, item } of changes.gainedItems) {
+    owners[ownerNames.indexOf(owner)].items.push(item);
+  }
+
+  for (const { title, status } of changes.finishedQuests) {
+    // Quests that don't exist or aren't active are ignored.
+    const quest = activeQuests.find((quest) => quest.title.toLowerCase() === title.toLowerCase());
+    if (quest) {
+      quest.status = status;
+    }
+  }
+
+  for (const quest of changes.newQuests) {
+    state.quests.push({ ...quest, status: "active" });
+  }
+
+  for (const { name, scoreChange, note } of changes.relationshipChanges) {
+    const relationship = characters[characterNames.indexOf(name)].relationship;
+
+    relationship.score = Math.min(Math.max(relationship.score + scoreChange, -100), 100);
+
+    if (note) {
+      relationship.notes.push(note);
+      relationship.notes.splice(0, relationship.notes.length - maxRelationshipNotes);
+    }
+  }
+
+  for (const { name, status } of changes.statusChanges) {
+    characters[characterNames.indexOf(name)].status = status;
+  }
+
+  operation.updateState();
+}
+
+const scenesPerChapter = 5;
+
+// Merges the summaries of completed scenes into a chapter once there are enough of them,
+// and updates the synopsis of the story so far accordingly.
+async function updateChapters(operation: Operation): Promise<void> {
+  const { state, backend, onToken, updateState } = operation;
+
+  // The summary of each scene is stored in the location change event that ends it,
+  // so the scene started by the most recent location change event has no summary yet.
+  const sceneSummaries = state.events
+    .filter((event) => event.type === "location_change")
+    .slice(1)
+    .map((event) => event.summary);
+
+  const latestChapter = state.chapters.at(-1);
+  const startSceneIndex = latestChapter?.endSceneIndex ?? 0;
+
+  if (sceneSummaries.length - startSceneIndex < scenesPerChapter) {
+    return;
+  }
+
+  const endSceneIndex = startSceneIndex + scenesPerChapter;
+  const summaries = sceneSummaries
+    .slice(startSceneIndex, endSceneIndex)
+    .filter((summary): summary is string => !!summary);
+
+  operation.step = ["Summarizing chapter", "This typically takes between 10 and 30 seconds"];
+  const summary = await backend.getNarration(summarizeChapterPrompt(state, summaries), onToken);
+
+  operation.step = ["Updating synopsis", "This typically takes between 10 and 30 seconds"];
+  const synopsis = await backend.getNarration(updateSynopsisPrompt(state, latestChapter?.synopsis, summary), onToken);
+
+  state.chapters.push({ endSceneIndex, summary, synopsis });
+  updateState();
+}
+
+// Answer for chooseDestinationPrompt if the protagonist isn't returning to a known location.
+const newLocationChoice = "new location";
+
+// Determines whether the protagonist has returned to a location they have visited before,
+// and returns its index, or -1 if they have gone somewhere new.
+async function chooseKnownLocation(operation: Operation): Promise<number> {
+  const { state, backend, onToken } = operation;
+
+  const currentLocationIndex = state.protagonist.locationIndex;
+
+  const knownLocationNames = Array.from(
+    new Set(state.locations.filter((_, index) => index !== currentLocationIndex).map((location) => location.name)),
+  );
+
+  if (knownLocationNames.length === 0) {
+    return -1;
+  }
+
+  operation.step = ["Determining destination", "This typically takes a few seconds"];
+  const destination = await backend.getObject(
+    chooseDestinationPrompt(state, knownLocationNames, newLocationChoice),
+    z.enum([...knownLocationNames, newLocationChoice]),
+    onToken,
+  );
+
+  if (destination === newLocationChoice) {
+    return -1;
+  }
+
+  // If several locations share a name, the most recently added one is the most likely destination.
+  return state.locations.findLastIndex(
+    (location, index) => index !== currentLocationIndex && location.name === destination,
+  );
+}
+
+async function generateActions(operation: Operation): Promise<void> {
+  const { state, backend, onToken } = operation;
+
+  operation.step = ["Generating actions", "This typically takes a few seconds"];
+  state.actions = await backend.getObject(generateActionsPrompt(state), schemas.Action.array().length(3), onToken);
+}
+
+async function advance(operation: Operation, action?: string): Promise<void> {
+  const { state, backend, onToken, updateState } = operation;
+
+  if (state.view === "welcome") {
+    state.view = "connection";
+  } else if (state.view === "connection") {
+    operation.step = [
+      "Checking connection",
+      "If this takes longer than a few seconds, there is probably something wrong",
+    ];
+    const testObject = await backend.getObject({ system: "test", user: "test" }, z.literal("waidrin"), onToken);
+    if (testObject !== "waidrin") {
+      throw new Error(
+        "Backend does not support schema constraints. Run the connection diagnostics for details on how to fix this.",
       );
+    }
 
-      for (const characterIndex of event.referencedCharacterIndices) {
-        if (!introducedCharacterIndices.has(characterIndex)) {
-          state.events.push({
-            type: "character_introduction",
-            characterIndex,
-          });
-          updateState();
-        }
-      }
-    };
+    state.view = "genre";
+  } else if (state.view === "genre") {
+    state.view = "character";
+  } else if (state.view === "character") {
+    operation.step = ["Generating world", "This typically takes between 10 and 30 seconds"];
+    state.world = await backend.getObject(generateWorldPrompt(state), schemas.World, onToken);
+
+    operation.step = ["Generating lore", "This typically takes between 10 and 30 seconds"];
+    state.lorebook = await backend.getObject(
+      generateLorebookPrompt(state),
+      schemas.LorebookEntry.extend({ keywords: schemas.LorebookEntry.shape.keywords.max(5) })
+        .array()
+        .length(5),
+      onToken,
+    );
 
-    try {
-      // Validate state before processing to avoid wasting
-      // time and tokens on requests for invalid states.
-      schemas.State.parse(state);
+    operation.step = ["Generating protagonist", "This typically takes between 10 and 30 seconds"];
+    const protagonist = await backend.getObject(generateProtagonistPrompt(state), getCharacterSchema(state), onToken);
+    state.protagonist = createCharacter(protagonist, 0);
 
-      if (state.view === "welcome") {
-        state.view = "connection";
-      } else if (state.view === "connection") {
-        step = ["Checking connection", "If this takes longer than a few seconds, there is probably something wrong"];
-        const testObject = await backend.getObject({ system: "test", user: "test" }, z.literal("waidrin"), onToken);
-        if (testObject !== "waidrin") {
-          throw new Error("Backend does not support schema constraints");
-        }
+    state.view = "scenario";
+  } else if (state.view === "scenario") {
+    operation.step = ["Generating starting location", "This typically takes between 10 and 30 seconds"];
+    const location = await backend.getObject(generateStartingLocationPrompt(state), getLocationSchema(state), onToken);
+
+    await onLocationChange(operation, location);
+
+    state.locations = [location];
+    const locationIndex = state.locations.length - 1;
+    state.protagonist.locationIndex = locationIndex;
+
+    operation.step = ["Generating characters", "This typically takes between 30 seconds and 1 minute"];
+    const characters = await backend.getObject(
+      generateStartingCharactersPrompt(state),
+      getCharacterSchema(state).array().length(5),
+      onToken,
+    );
+    state.characters = characters.map((character) => createCharacter(character, locationIndex));
+
+    state.events = [
+      {
+        type: "location_change",
+        locationIndex,
+        presentCharacterIndices: state.characters.map((_, index) => index),
+      },
+    ];
+    state.quests = initialState.quests;
+    state.chapters = initialState.chapters;
+    state.snapshots = [];
+    state.branches = initialState.branches;
+    state.activeBranchIndex = initialState.activeBranchIndex;
+
+    state.view = "chat";
+  } else if (state.view === "chat") {
+    const stateBeforeTurn = current(state);
+
+    state.actions = [];
+    updateState();
+
+    if (action) {
+      state.events.push({
+        type: "action",
+        action,
+      });
+      updateState();
+    }
+
+    await narrate(operation, action);
+
+    operation.step = ["Checking for location change", "This typically takes a few seconds"];
+    if (!(await getBoolean(backend, checkIfSameLocationPrompt(state), onToken))) {
+      // Characters who are dead, imprisoned, or gone cannot accompany the protagonist.
+      const availableCharacterNames = state.characters
+        .filter((character) => character.status === "active")
+        .map((character) => character.name);
+
+      const accompanyingCharactersSchema =
+        availableCharacterNames.length > 0 ? z.enum(availableCharacterNames).array() : z.string().array().length(0);
+
+      // If the protagonist returns to a location they have visited before, that location is reused
+      // instead of creating a duplicate.
+      const knownLocationIndex = await chooseKnownLocation(operation);
+
+      let locationIndex: number;
+      let accompanyingCharacters: string[];
+
+      if (knownLocationIndex >= 0) {
+        const knownLocation = state.locations[knownLocationIndex];
+
+        const schema = z.object({
+          accompanyingCharacters: accompanyingCharactersSchema,
+        });
+
+        operation.step = ["Returning to location", "This typically takes a few seconds"];
+        const returnInfo = await backend.getObject(generateNewLocationPrompt(state, knownLocation), schema, onToken);
 
-        state.view = "genre";
-      } else if (state.view === "genre") {
-        state.view = "character";
-      } else if (state.view === "character") {
-        step = ["Generating world", "This typically takes between 10 and 30 seconds"];
-        state.world = await backend.getObject(generateWorldPrompt, schemas.World, onToken);
+        await onLocationChange(operation, knownLocation);
 
-        step = ["Generating protagonist", "This typically takes between 10 and 30 seconds"];
-        state.protagonist = await backend.getObject(generateProtagonistPrompt(state), RawCharacter, onToken);
-        state.protagonist.locationIndex = 0;
+        locationIndex = knownLocationIndex;
+        accompanyingCharacters = returnInfo.accompanyingCharacters;
+      } else {
+        const schema = z.object({
+          newLocation: getLocationSchema(state),
+          accompanyingCharacters: accompanyingCharactersSchema,
+        });
+
+        operation.step = ["Generating location", "This typically takes between 10 and 30 seconds"];
+        const newLocationInfo = await backend.getObject(generateNewLocationPrompt(state), schema, onToken);
 
-        state.view = "scenario";
-      } else if (state.view === "scenario") {
-        step = ["Generating starting location", "This typically takes between 10 and 30 seconds"];
-        const location = await backend.getObject(generateStartingLocationPrompt(state), schemas.Location, onToken);
+        await onLocationChange(operation, newLocationInfo.newLocation);
 
-        await onLocationChange(location);
+        state.locations.push(newLocationInfo.newLocation);
+        locationIndex = state.locations.length - 1;
+        accompanyingCharacters = newLocationInfo.accompanyingCharacters;
+      }
 
-        state.locations = [location];
-        const locationIndex = state.locations.length - 1;
-        state.protagonist.locationIndex = locationIndex;
+      state.protagonist.locationIndex = locationIndex;
+
+      const accompanyingCharacterIndices = state.characters
+        .map((character, index) =>
+          character.status === "active" && accompanyingCharacters.includes(character.name) ? index : -1,
+        )
+        .filter((index) => index >= 0);
+
+      // Characters who stayed behind at a known location are still there.
+      const remainingCharacterIndices = state.characters
+        .map((character, index) =>
+          character.status === "active" &&
+          character.locationIndex === locationIndex &&
+          !accompanyingCharacterIndices.includes(index)
+            ? index
+            : -1,
+        )
+        .filter((index) => index >= 0);
+
+      for (const index of accompanyingCharacterIndices) {
+        state.characters[index].locationIndex = locationIndex;
+      }
+
+      // Must be called *before* adding the location change event to the state!
+      const generateCharactersPrompt = generateNewCharactersPrompt(state, accompanyingCharacters);
+
+      const event: LocationChangeEvent = {
+        type: "location_change",
+        locationIndex,
+        presentCharacterIndices: [...accompanyingCharacterIndices, ...remainingCharacterIndices],
+      };
+
+      // summarize the previous scene (all events after the last location change)
+      operation.step = ["Summarizing scene", "This typically takes between 10 and 30 seconds"];
+      event.summary = await backend.getNarration(summarizeScenePrompt(state), (token: string, count: number) => {
+        event.summary += token;
+        onToken(token, count);
+        updateState();
+      });
+
+      state.events.push(event);
+      updateState();
 
-        step = ["Generating characters", "This typically takes between 30 seconds and 1 minute"];
+      await updateChapters(operation);
+
+      // Known locations are already populated, so no new characters are created for them.
+      if (knownLocationIndex < 0) {
+        operation.step = ["Generating characters", "This typically takes between 30 seconds and 1 minute"];
         const characters = await backend.getObject(
-          generateStartingCharactersPrompt(state),
-          RawCharacter.array().length(5),
+          generateCharactersPrompt,
+          getCharacterSchema(state).array().length(5),
           onToken,
         );
-        state.characters = characters.map((character) => ({ ...character, locationIndex }));
-
-        state.events = [
-          {
-            type: "location_change",
-            locationIndex,
-            presentCharacterIndices: state.characters.map((_, index) => index),
-          },
-        ];
-
-        state.view = "chat";
-      } else if (state.view === "chat") {
-        state.actions = [];
-        updateState();
+        state.characters.push(...characters.map((character) => createCharacter(character, locationIndex)));
 
-        if (action) {
-          state.events.push({
-            type: "action",
-            action,
-          });
-          updateState();
+        for (let i = state.characters.length - characters.length; i < state.characters.length; i++) {
+          event.presentCharacterIndices.push(i);
         }
+      }
 
-        await narrate(action);
+      await narrate(operation);
+    }
 
-        step = ["Checking for location change", "This typically takes a few seconds"];
-        if (!(await getBoolean(checkIfSameLocationPrompt(state), onToken))) {
-          const schema = z.object({
-            newLocation: schemas.Location,
-            accompanyingCharacters: z.enum(state.characters.map((character) => character.name)).array(),
-          });
+    await generateActions(operation);
 
-          step = ["Generating location", "This typically takes between 10 and 30 seconds"];
-          const newLocationInfo = await backend.getObject(generateNewLocationPrompt(state), schema, onToken);
+    state.snapshots.push(history.createSnapshot(stateBeforeTurn, current(state)));
+  } else {
+    throw new Error(`Invalid value for state.view: ${state.view}`);
+  }
+}
 
-          await onLocationChange(newLocationInfo.newLocation);
+export async function next(
+  action?: string,
+  onProgress?: ProgressCallback,
+  options: GenerationOptions = {},
+): Promise<void> {
+  await runOperation(onProgress, options, async (operation) => {
+    await advance(operation, action);
+  });
+}
 
-          state.locations.push(newLocationInfo.newLocation);
-          const locationIndex = state.locations.length - 1;
-          state.protagonist.locationIndex = locationIndex;
+// Replaces the most recent turn with a newly generated one, starting from the same action.
+export async function regenerate(onProgress?: ProgressCallback, options: GenerationOptions = {}): Promise<void> {
+  await runOperation(onProgress, options, async (operation) => {
+    const { state } = operation;
 
-          const accompanyingCharacterIndices = state.characters
-            .map((character, index) => (newLocationInfo.accompanyingCharacters.includes(character.name) ? index : -1))
-            .filter((index) => index >= 0);
+    if (state.view !== "chat" || state.snapshots.length === 0) {
+      throw new Error("There is no turn to regenerate");
+    }
 
-          for (const index of accompanyingCharacterIndices) {
-            state.characters[index].locationIndex = locationIndex;
-          }
+    const snapshotIndex = state.snapshots.length - 1;
+    const event = state.events[state.snapshots[snapshotIndex].eventCount];
 
-          // Must be called *before* adding the location change event to the state!
-          const generateCharactersPrompt = generateNewCharactersPrompt(state, newLocationInfo.accompanyingCharacters);
+    history.rewindToSnapshot(state, snapshotIndex);
 
-          const event: LocationChangeEvent = {
-            type: "location_change",
-            locationIndex,
-            presentCharacterIndices: accompanyingCharacterIndices,
-          };
+    await advance(operation, event.type === "action" ? event.action : undefined);
+  });
+}
 
-          // summarize the previous scene (all events after the last location change)
-          step = ["Summarizing scene", "This typically takes between 10 and 30 seconds"];
-          event.summary = await backend.getNarration(summarizeScenePrompt(state), (token: string, count: number) => {
-            event.summary += token;
-            onToken(token, count);
-            updateState();
-          });
+function getLastNarrationEvent(state: State): NarrationEvent {
+  const event = state.events.findLast((event) => event.type === "narration");
 
-          state.events.push(event);
-          updateState();
+  if (!event) {
+    throw new Error("There is no narration");
+  }
 
-          step = ["Generating characters", "This typically takes between 30 seconds and 1 minute"];
-          const characters = await backend.getObject(generateCharactersPrompt, RawCharacter.array().length(5), onToken);
-          state.characters.push(...characters.map((character) => ({ ...character, locationIndex })));
+  return event;
+}
 
-          for (let i = state.characters.length - characters.length; i < state.characters.length; i++) {
-            event.presentCharacterIndices.push(i);
-          }
+// Asks the backend to continue the most recent narration from where it stopped.
+export async function continueNarration(onProgress?: ProgressCallback, options: GenerationOptions = {}): Promise<void> {
+  await runOperation(onProgress, options, async (operation) => {
+    const { state, backend, onToken, updateState } = operation;
 
-          await narrate();
-        }
+    const event = getLastNarrationEvent(state);
+    const stateBeforeContinuation = current(state);
 
-        step = ["Generating actions", "This typically takes a few seconds"];
-        state.actions = await backend.getObject(
-          generateActionsPrompt(state),
-          schemas.Action.array().length(3),
-          onToken,
-        );
-      } else {
-        throw new Error(`Invalid value for state.view: ${state.view}`);
-      }
+    // The suggested actions are regenerated afterwards. Clearing them also disables the controls
+    // that depend on them while the continuation is generated, as with any other turn.
+    state.actions = [];
+    updateState();
 
-      // Validate state before returning to prevent
-      // invalid states being committed to the store.
-      schemas.State.parse(state);
-    } finally {
-      // Cancel any pending partial updates to avoid confusing the frontend
-      // by a partial update arriving after the function returns.
-      onToken.cancel();
-      updateState.cancel();
+    // Start a new paragraph if the narration stopped at the end of a sentence.
+    const text = event.text.trimEnd();
+    const separator = /[.!?"”…*]$/.test(text) ? "\n\n" : " ";
+
+    operation.step = ["Continuing narration", ""];
+    const continuation = await backend.getNarration(
+      continueNarrationPrompt(state),
+      (token: string, count: number) => {
+        event.text += token;
+        onToken(token, count);
+        updateState();
+      },
+      options.narrationParams,
+    );
+
+    event.text = `${text}${separator}${continuation.trim()}`;
+
+    updateCharacterReferences(state, event);
+    updateState();
+
+    // Only the continuation is new, so only it can contain changes that haven't been tracked yet.
+    await trackChanges(operation, continuation, event.referencedCharacterIndices);
+
+    // The situation has changed, so the previously suggested actions may no longer fit.
+    await generateActions(operation);
+
+    // The continuation is part of the most recent turn, so undoing that turn must revert its changes as well.
+    const snapshot = state.snapshots.at(-1);
+    if (snapshot) {
+      history.extendSnapshot(snapshot, stateBeforeContinuation, current(state));
     }
   });
 }
 
+// Replaces the text of the most recent narration.
+export function editNarration(text: string): void {
+  getState().set((state) => {
+    const event = getLastNarrationEvent(state);
+    event.text = schemas.NarrationEvent.shape.text.parse(text);
+    updateCharacterReferences(state, event);
+  });
+}
+
+export function editCharacterBiography(characterIndex: number, biography: string): void {
+  getState().set((state) => {
+    state.characters[characterIndex].biography = schemas.Character.shape.biography.parse(biography);
+  });
+}
+
+export function setCharacterPinned(characterIndex: number, pinned: boolean): void {
+  getState().set((state) => {
+    state.characters[characterIndex].pinned = pinned;
+  });
+}
+
 export function back(): void {
   getState().set((state) => {
     if (state.view === "welcome") {
@@ -270,21 +748,69 @@ export function back(): void {
     } else if (state.view === "scenario") {
       state.view = "character";
     } else if (state.view === "chat") {
-      // Chat states cannot be unambiguously reversed.
+      // Undo the most recent action. The initial turn, which has no action,
+      // cannot be undone, as it is generated automatically by the frontend.
+      for (let i = state.snapshots.length - 1; i >= 0; i--) {
+        if (state.events[state.snapshots[i].eventCount]?.type === "action") {
+          history.rewindToSnapshot(state, i);
+          break;
+        }
+      }
     } else {
       throw new Error(`Invalid value for state.view: ${state.view}`);
     }
   });
 }
 
+// Rewinds the chat to the turn started by the action event at the given index,
+// discarding that turn and all turns after it.
+export function rewind(eventIndex: number): void {
+  getState().set((state) => {
+    const snapshotIndex = state.snapshots.findIndex((snapshot) => snapshot.eventCount === eventIndex);
+
+    if (snapshotIndex < 0) {
+      throw new Error(`No snapshot found for event ${eventIndex}`);
+    }
+
+    history.rewindToSnapshot(state, snapshotIndex);
+  });
+}
+
+// Creates a new branch starting at the turn of the action event at the given index,
+// and switches to it. The current branch is preserved.
+export function forkBranch(eventIndex: number): void {
+  getState().set((state) => {
+    history.forkBranch(state, eventIndex, `Branch ${state.branches.length + 1}`);
+  });
+}
+
+export function switchBranch(branchIndex: number): void {
+  getState().set((state) => {
+    history.switchBranch(state, branchIndex);
+  });
+}
+
+export function renameBranch(branchIndex: number, name: string): void {
+  getState().set((state) => {
+    state.branches[branchIndex].name = schemas.Branch.shape.name.parse(name);
+  });
+}
+
+export function deleteBranch(branchIndex: number): void {
+  getState().set((state) => {
+    history.deleteBranch(state, branchIndex);
+  });
+}
+
 export function reset(): void {
+  removeAllCampaigns();
   getState().set(initialState);
 }
 
 export function abort(): void {
-  getBackend().abort();
+  (operationBackend ?? getBackend()).abort();
 }
 
 export function isAbortError(error: unknown): boolean {
-  return getBackend().isAbortError(error);
+  return (operationBackend ?? getBackend()).isAbortError(error);
 }
@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { type Character, type GenrePack, getState, type LocationType, type Race } from "./state";
+
+export function getGenrePack(id: string): GenrePack {
+  const genrePack = getState().genrePacks[id];
+
+  if (!genrePack) {
+    throw new Error(`Genre pack "${id}" is not installed`);
+  }
+
+  return genrePack;
+}
+
+export function getAssetUrl(genrePack: GenrePack, assetPath: string): string {
+  if (assetPath.startsWith("/") || assetPath.includes("://")) {
+    return assetPath;
+  } else {
+    return `/genres/${genrePack.id}/${assetPath}`;
+  }
+}
+
+export function getRaceName(genrePack: GenrePack | undefined, race: Race): string {
+  return genrePack?.races.find((info) => info.id === race)?.name ?? race;
+}
+
+export function getCharacterImage(genrePack: GenrePack, character: Pick<Character, "gender" | "race">): string {
+  const image = genrePack.races.find((info) => info.id === character.race)?.images?.[character.gender];
+  // The genre card has the same aspect ratio as character images.
+  return getAssetUrl(genrePack, image ?? genrePack.image);
+}
+
+export function getLocationImage(genrePack: GenrePack, type: LocationType): string | undefined {
+  const image = genrePack.locationTypes.find((info) => info.id === type)?.image;
+  return image ? getAssetUrl(genrePack, image) : undefined;
+}
@@ -0,0 +1,223 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import * as z from "zod/v4";
+
+type JSONSchema = z.core.JSONSchema.BaseSchema;
+
+// Integer ranges up to this size are enumerated, so that the bounds are enforced by the grammar.
+const maxEnumeratedIntegers = 256;
+
+// Rules shared by all grammars. Whitespace is limited to prevent models from getting stuck
+// generating whitespace forever, which is a common failure mode with unrestricted grammars.
+const primitiveRules: Record<string, string> = {
+  ws: "[ \\t\\n]{0,20}",
+  char: '[^"\\\\\\x7F\\x00-\\x1F] | "\\\\" (["\\\\/bfnrt] | "u" [0-9a-fA-F]{4})',
+  string: '"\\"" char* "\\"" ws',
+  "nonempty-string": '"\\"" char+ "\\"" ws',
+  integer: '"-"? ([0-9] | [1-9] [0-9]{0,15}) ws',
+  number: '"-"? ([0-9] | [1-9] [0-9]{0,15}) ("." [0-9]{1,16})? ([eE] [-+]? [0-9]{1,3})? ws',
+  boolean: '("true" | "false") ws',
+  null: '"null" ws',
+};
+
+// GBNF rule names may only contain letters, digits, and dashes.
+function getRuleName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9-]+/g, "-").toLowerCase() || "rule";
+}
+
+// Returns a GBNF string literal matching the JSON representation of the value.
+function literal(value: unknown): string {
+  return JSON.stringify(JSON.stringify(value));
+}
+
+class GrammarBuilder {
+  rules = new Map<string, string>();
+  definitions: Record<string, JSONSchema>;
+
+  constructor(root: JSONSchema) {
+    this.definitions = root.$defs ?? {};
+  }
+
+  // Adds a rule with a unique name derived from the given name, and returns the unique name.
+  addRule(name: string, body: string): string {
+    const baseName = getRuleName(name);
+    let uniqueName = baseName;
+
+    for (let i = 2; this.rules.has(uniqueName) && this.rules.get(uniqueName) !== body; i++) {
+      uniqueName = `${baseName}${i}`;
+    }
+
+    this.rules.set(uniqueName, body);
+    return uniqueName;
+  }
+
+  addPrimitiveRule(name: string): string {
+    if (name === "string" || name === "nonempty-string") {
+      this.addPrimitiveRule("char");
+    }
+
+    if (name !== "ws" && name !== "char") {
+      this.addPrimitiveRule("ws");
+    }
+
+    this.rules.set(name, primitiveRules[name]);
+    return name;
+  }
+
+  // Returns an expression (a rule name or an inline expression) matching the schema.
+  visit(schema: JSONSchema | boolean, name: string): string {
+    if (typeof schema === "boolean") {
+      throw new Error("Boolean JSON schemas cannot be converted to a grammar");
+    }
+
+    if (schema.$ref) {
+      const match = schema.$ref.match(/^#\/\$defs\/(.+)$/);
+
+      if (!match || !Object.hasOwn(this.definitions, match[1])) {
+        throw new Error(`Unresolvable JSON schema reference: ${schema.$ref}`);
+      }
+
+      const definitionName = getRuleName(`def-${match[1]}`);
+
+      // Definitions can be recursive, so the rule name is reserved before visiting the definition.
+      if (!this.rules.has(definitionName)) {
+        this.rules.set(definitionName, "");
+        this.rules.set(definitionName, this.visit(this.definitions[match[1]], definitionName));
+      }
+
+      return definitionName;
+    }
+
+    if (schema.const !== undefined) {
+      return `${literal(schema.const)} ${this.addPrimitiveRule("ws")}`;
+    }
+
+    if (schema.enum) {
+      const alternatives = schema.enum.map((value) => literal(value)).join(" | ");
+      return this.addRule(name, `(${alternatives}) ${this.addPrimitiveRule("ws")}`);
+    }
+
+    const alternatives = schema.anyOf ?? schema.oneOf;
+
+    if (alternatives) {
+      return this.addRule(
+        name,
+        alternatives.map((alternative, index) => this.visit(alternative, `${name}-${index}`)).join(" | "),
+      );
+    }
+
+    switch (schema.type) {
+      case "object":
+        return this.visitObject(schema, name);
+      case "array":
+        return this.visitArray(schema, name);
+      case "string":
+        // Length limits other than non-emptiness are left to validation,
+        // because large repetition counts make grammars very slow to process.
+        return this.addPrimitiveRule((schema.minLength ?? 0) > 0 ? "nonempty-string" : "string");
+      case "integer":
+        return this.visitInteger(schema, name);
+      case "number":
+      case "boolean":
+      case "null":
+        return this.addPrimitiveRule(schema.type);
+      default:
+        throw new Error(`Unsupported JSON schema for grammar: ${JSON.stringify(schema)}`);
+    }
+  }
+
+  visitObject(schema: JSONSchema, name: string): string {
+    if (typeof schema.additionalProperties === "object") {
+      throw new Error(`Unsupported JSON schema for grammar: ${JSON.stringify(schema)}`);
+    }
+
+    const ws = this.addPrimitiveRule("ws");
+
+    // All properties are generated, in the order in which they are defined.
+    const properties = Object.entries(schema.properties ?? {}).map(
+      ([key, value]) => `${literal(key)} ${ws} ":" ${ws} ${this.visit(value, `${name}-${key}`)}`,
+    );
+
+    const body = properties.length > 0 ? properties.join(` "," ${ws} `) : "";
+    return this.addRule(name, `"{" ${ws} ${body} "}" ${ws}`);
+  }
+
+  visitArray(schema: JSONSchema, name: string): string {
+    const ws = this.addPrimitiveRule("ws");
+
+    if (Array.isArray(schema.items) || schema.items === undefined) {
+      throw new Error(`Unsupported JSON schema for grammar: ${JSON.stringify(schema)}`);
+    }
+
+    const item = this.visit(schema.items, `${name}-item`);
+    const minItems = schema.minItems ?? 0;
+    const maxItems = schema.maxItems;
+
+    let body: string;
+
+    if (maxItems === 0) {
+      body = "";
+    } else {
+      const minRepetitions = Math.max(minItems - 1, 0);
+      const repetition =
+        maxItems === undefined
+          ? minRepetitions === 0
+            ? "*"
+            : `{${minRepetitions},}`
+          : `{${minRepetitions},${maxItems - 1}}`;
+
+      body = `${item} ("," ${ws} ${item})${repetition}`;
+
+      if (minItems === 0) {
+        body = `(${body})?`;
+      }
+    }
+
+    return this.addRule(name, `"[" ${ws} ${body} "]" ${ws}`);
+  }
+
+  visitInteger(schema: JSONSchema, name: string): string {
+    const minimum = schema.minimum ?? (schema.exclusiveMinimum === undefined ? undefined : schema.exclusiveMinimum + 1);
+    const maximum = schema.maximum ?? (schema.exclusiveMaximum === undefined ? undefined : schema.exclusiveMaximum - 1);
+
+    if (
+      minimum === undefined ||
+      maximum === undefined ||
+      !Number.isSafeInteger(minimum) ||
+      !Number.isSafeInteger(maximum) ||
+      maximum - minimum >= maxEnumeratedIntegers
+    ) {
+      return this.addPrimitiveRule("integer");
+    }
+
+    const values: string[] = [];
+
+    for (let value = minimum; value <= maximum; value++) {
+      values.push(literal(value));
+    }
+
+    return this.addRule(name, `(${values.join(" | ")}) ${this.addPrimitiveRule("ws")}`);
+  }
+}
+
+/**
+ * Converts a schema to a GBNF grammar (as used by llama.cpp and KoboldCpp)
+ * that constrains generation to JSON matching the schema.
+ * Constraints that cannot be expressed efficiently in GBNF (e.g. string lengths and patterns)
+ * are not enforced by the grammar, so the output must still be validated against the schema.
+ * @param schema The schema to convert.
+ * @returns The grammar, with "root" as the start rule.
+ */
+export function schemaToGrammar(schema: z.ZodType): string {
+  const jsonSchema = z.toJSONSchema(schema);
+  const builder = new GrammarBuilder(jsonSchema);
+
+  const root = builder.visit(jsonSchema, "value");
+  const ws = builder.addPrimitiveRule("ws");
+  builder.rules.set("root", `${ws} ${root}`);
+
+  return Array.from(builder.rules)
+    .map(([name, body]) => `${name} ::= ${body}`)
+    .join("\n");
+}
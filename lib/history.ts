@@ -0,0 +1,242 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { current, isDraft, type WritableDraft } from "immer";
+import { isEqual } from "lodash";
+import type { Snapshot, State, Timeline } from "./state";
+
+interface ArrayPatch<Item> {
+  length: number;
+  items: { index: number; value: Item }[];
+}
+
+function createArrayPatch<Item>(before: Item[], after: Item[]): ArrayPatch<Item> {
+  const patch: ArrayPatch<Item> = {
+    length: before.length,
+    items: [],
+  };
+
+  for (const [index, value] of before.entries()) {
+    if (index >= after.length || !isEqual(value, after[index])) {
+      patch.items.push({ index, value });
+    }
+  }
+
+  return patch;
+}
+
+function mergeArrayPatch<Item>(patch: ArrayPatch<Item>, laterPatch: ArrayPatch<Item>): void {
+  for (const item of laterPatch.items) {
+    // Items that already changed earlier keep their earlier value, and items
+    // added after the original patch was created are discarded anyway.
+    if (item.index < patch.length && !patch.items.some((other) => other.index === item.index)) {
+      patch.items.push(item);
+    }
+  }
+}
+
+function applyArrayPatch<Item>(array: Item[], patch: ArrayPatch<Item>): void {
+  // Elements added after the snapshot was taken are discarded.
+  array.splice(patch.length);
+
+  for (const { index, value } of patch.items) {
+    array[index] = value;
+  }
+}
+
+/**
+ * Creates a snapshot that allows restoring the state from before a turn.
+ * @param before The state at the start of the turn. Must not be a draft.
+ * @param after The state at the end of the turn. Must not be a draft.
+ * @returns The snapshot.
+ */
+export function createSnapshot(before: State, after: State): Snapshot {
+  return {
+    eventCount: before.events.length,
+    locations: createArrayPatch(before.locations, after.locations),
+    characters: createArrayPatch(before.characters, after.characters),
+    protagonist: before.protagonist,
+    actions: before.actions,
+    quests: before.quests,
+    chapterCount: before.chapters.length,
+  };
+}
+
+/**
+ * Extends a snapshot with changes made to its turn after the turn ended,
+ * so that rewinding to the snapshot also reverts those changes.
+ * The protagonist, actions, and quests are stored as a whole, and the stored
+ * values already predate the changes, so only the array patches are updated.
+ * @param snapshot The snapshot to modify.
+ * @param before The state before the changes. Must not be a draft.
+ * @param after The state after the changes. Must not be a draft.
+ */
+export function extendSnapshot(snapshot: Snapshot, before: State, after: State): void {
+  mergeArrayPatch(snapshot.locations, createArrayPatch(before.locations, after.locations));
+  mergeArrayPatch(snapshot.characters, createArrayPatch(before.characters, after.characters));
+}
+
+/**
+ * Rewinds the state to the start of the turn recorded in a snapshot.
+ * Snapshots store only the changes made during their turn, so all
+ * snapshots taken after the target snapshot are applied in reverse order.
+ * Manual edits made between turns are preserved unless they were made
+ * to data that changed during one of the rewound turns.
+ * @param state The state to modify.
+ * @param snapshotIndex The index of the snapshot to rewind to.
+ */
+export function rewindToSnapshot(state: WritableDraft<State>, snapshotIndex: number): void {
+  for (let i = state.snapshots.length - 1; i >= snapshotIndex; i--) {
+    const snapshot = state.snapshots[i];
+
+    state.events.splice(snapshot.eventCount);
+    applyArrayPatch(state.locations, snapshot.locations);
+    applyArrayPatch(state.characters, snapshot.characters);
+    state.protagonist = snapshot.protagonist;
+    state.actions = snapshot.actions;
+    state.quests = snapshot.quests;
+    state.chapters.splice(snapshot.chapterCount);
+  }
+
+  state.snapshots.splice(snapshotIndex);
+}
+
+/**
+ * Returns the timeline of the active branch.
+ * @param state The current state.
+ * @returns A copy of the timeline that is safe to store.
+ */
+export function getTimeline(state: State | WritableDraft<State>): Timeline {
+  const plainState = isDraft(state) ? current(state) : state;
+
+  return {
+    locations: plainState.locations,
+    characters: plainState.characters,
+    protagonist: plainState.protagonist,
+    events: plainState.events,
+    actions: plainState.actions,
+    quests: plainState.quests,
+    chapters: plainState.chapters,
+    snapshots: plainState.snapshots,
+  };
+}
+
+function setTimeline(state: WritableDraft<State>, timeline: Timeline): void {
+  state.locations = timeline.locations;
+  state.characters = timeline.characters;
+  state.protagonist = timeline.protagonist;
+  state.events = timeline.events;
+  state.actions = timeline.actions;
+  state.quests = timeline.quests;
+  state.chapters = timeline.chapters;
+  state.snapshots = timeline.snapshots;
+}
+
+/**
+ * Returns the timeline of any branch, whether active or not.
+ * @param state The current state.
+ * @param branchIndex The index of the branch.
+ * @returns The timeline of the branch.
+ */
+export function getBranchTimeline(state: State, branchIndex: number): Timeline {
+  if (branchIndex === state.activeBranchIndex) {
+    return getTimeline(state);
+  }
+
+  const timeline = state.branches[branchIndex].timeline;
+
+  if (!timeline) {
+    throw new Error(`Inactive branch ${branchIndex} has no timeline`);
+  }
+
+  return timeline;
+}
+
+/**
+ * Makes another branch the active branch, storing the timeline of the previously active branch.
+ * @param state The state to modify.
+ * @param branchIndex The index of the branch to switch to.
+ */
+export function switchBranch(state: WritableDraft<State>, branchIndex: number): void {
+  if (branchIndex === state.activeBranchIndex) {
+    return;
+  }
+
+  const branch = state.branches[branchIndex];
+
+  if (!branch.timeline) {
+    throw new Error(`Inactive branch ${branchIndex} has no timeline`);
+  }
+
+  state.branches[state.activeBranchIndex].timeline = getTimeline(state);
+  setTimeline(state, branch.timeline);
+  branch.timeline = undefined;
+  state.activeBranchIndex = branchIndex;
+}
+
+/**
+ * Creates a new branch starting at the turn of an action event in the active branch,
+ * and makes it the active branch. The active branch itself is kept unchanged.
+ * @param state The state to modify.
+ * @param eventIndex The index of the action event at which to fork.
+ * @param name The name of the new branch.
+ */
+export function forkBranch(state: WritableDraft<State>, eventIndex: number, name: string): void {
+  const snapshotIndex = state.snapshots.findIndex((snapshot) => snapshot.eventCount === eventIndex);
+
+  if (snapshotIndex < 0) {
+    throw new Error(`No snapshot found for event ${eventIndex}`);
+  }
+
+  const parentIndex = state.activeBranchIndex;
+  state.branches[parentIndex].timeline = getTimeline(state);
+
+  rewindToSnapshot(state, snapshotIndex);
+
+  state.branches.push({
+    name,
+    parentIndex,
+    forkEventIndex: eventIndex,
+  });
+
+  state.activeBranchIndex = state.branches.length - 1;
+}
+
+/**
+ * Deletes an inactive branch. Branches that were forked from it are re-attached to its parent.
+ * @param state The state to modify.
+ * @param branchIndex The index of the branch to delete.
+ */
+export function deleteBranch(state: WritableDraft<State>, branchIndex: number): void {
+  if (branchIndex === state.activeBranchIndex) {
+    throw new Error("The active branch cannot be deleted");
+  }
+
+  const deletedBranch = state.branches[branchIndex];
+
+  for (const branch of state.branches) {
+    if (branch.parentIndex === branchIndex) {
+      branch.parentIndex = deletedBranch.parentIndex;
+
+      // The re-attached branch shares events with its new parent
+      // only up to the point where the deleted branch was forked.
+      if (branch.forkEventIndex !== undefined && deletedBranch.forkEventIndex !== undefined) {
+        branch.forkEventIndex = Math.min(branch.forkEventIndex, deletedBranch.forkEventIndex);
+      } else {
+        branch.forkEventIndex = undefined;
+      }
+    }
+  }
+
+  state.branches.splice(branchIndex, 1);
+
+  for (const branch of state.branches) {
+    if (branch.parentIndex !== undefined && branch.parentIndex > branchIndex) {
+      branch.parentIndex--;
+    }
+  }
+
+  if (state.activeBranchIndex > branchIndex) {
+    state.activeBranchIndex--;
+  }
+}
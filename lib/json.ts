@@ -0,0 +1,162 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import * as z from "zod/v4";
+import type { TokenCallback } from "./backend";
+import { type Prompt, retryObjectPrompt } from "./prompts";
+
+// Removes Markdown code fences, and any text preceding the JSON value.
+function extractJson(text: string): string {
+  let json = text.trim();
+
+  // The closing fence may be missing if the response was cut off.
+  const fence = json.match(/```[a-z]*\s*\n([\s\S]*?)(?:```|$)/i);
+  if (fence) {
+    json = fence[1].trim();
+  }
+
+  const start = json.search(/[{["]/);
+  return start > 0 ? json.slice(start) : json;
+}
+
+/**
+ * Repairs common defects in JSON generated by language models: code fences, surrounding text,
+ * trailing commas, unescaped line breaks in strings, and missing closing quotes and brackets
+ * (which occur when the response is cut off). The result is not guaranteed to be valid JSON.
+ * @param text The JSON text to repair.
+ * @returns The repaired JSON text.
+ */
+export function repairJson(text: string): string {
+  let result = "";
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of extractJson(text)) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      } else if (char === "\n") {
+        result += "\\n";
+        continue;
+      } else if (char === "\t") {
+        result += "\\t";
+        continue;
+      } else if (char === "\r") {
+        continue;
+      }
+
+      result += char;
+
+      // Text following a top-level string is discarded.
+      if (!inString && closers.length === 0) {
+        break;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === "{") {
+      closers.push("}");
+      result += char;
+    } else if (char === "[") {
+      closers.push("]");
+      result += char;
+    } else if (char === "}" || char === "]") {
+      const closer = closers.pop();
+
+      if (!closer) {
+        break;
+      }
+
+      // Mismatched brackets are replaced with the expected ones.
+      result = `${result.replace(/,\s*$/, "")}${closer}`;
+
+      // Text following the top-level value is discarded.
+      if (closers.length === 0) {
+        break;
+      }
+    } else {
+      result += char;
+    }
+  }
+
+  if (escaped) {
+    result = result.slice(0, -1);
+  }
+
+  if (inString) {
+    result += '"';
+  }
+
+  result = result.replace(/,\s*$/, "");
+
+  while (closers.length > 0) {
+    result += closers.pop();
+  }
+
+  return result;
+}
+
+// Parses the text as JSON, repairing it first if necessary.
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    try {
+      return JSON.parse(repairJson(text));
+    } catch {
+      // The original error describes the actual problem with the response.
+      throw error;
+    }
+  }
+}
+
+/**
+ * Generates an object matching a schema, recovering from invalid responses.
+ * Responses are repaired if possible, and if they still don't match the schema,
+ * the backend is prompted again, with the validation errors added to the prompt.
+ * @param prompt The prompt to generate the object from.
+ * @param schema The schema the object must conform to.
+ * @param maxAttempts The maximum number of times the backend is prompted.
+ * @param generate Function that returns the response of the backend to a prompt.
+ * @param onToken Function called for each generated token, along with the number of the current attempt.
+ * @returns The generated object.
+ */
+export async function generateObject<Schema extends z.ZodType, Type extends z.infer<Schema>>(
+  prompt: Prompt,
+  schema: Schema,
+  maxAttempts: number,
+  generate: (prompt: Prompt, onToken?: TokenCallback) => Promise<string>,
+  onToken?: TokenCallback,
+): Promise<Type> {
+  let attemptPrompt = prompt;
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await generate(attemptPrompt, onToken && ((token, count) => onToken(token, count, attempt)));
+
+    let error: string;
+
+    try {
+      const result = schema.safeParse(parseJson(response));
+
+      if (result.success) {
+        return result.data as Type;
+      }
+
+      error = z.prettifyError(result.error);
+    } catch (parseError) {
+      error = parseError instanceof Error ? parseError.message : String(parseError);
+    }
+
+    if (attempt >= maxAttempts) {
+      throw new Error(`Backend returned an invalid response (${attempt} attempt(s)):\n${error}`);
+    }
+
+    // The original prompt is used as the basis, so that errors don't accumulate across attempts.
+    attemptPrompt = retryObjectPrompt(prompt, response, error);
+  }
+}
@@ -0,0 +1,243 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { current, isDraft } from "immer";
+import * as z from "zod/v4";
+import type { Backend, TokenCallback } from "./backend";
+import { schemaToGrammar } from "./grammar";
+import { generateObject } from "./json";
+import type { Prompt } from "./prompts";
+import { type ChatTemplateName, getState } from "./state";
+import { chatTemplates } from "./templates";
+
+export interface KoboldBackendSettings {
+  koboldUrl: string;
+  chatTemplate: ChatTemplateName;
+  contextLength: number;
+  maxObjectAttempts: number;
+  generationParams: Record<string, unknown>;
+  narrationParams: Record<string, unknown>;
+}
+
+const StreamEvent = z.object({
+  token: z.string(),
+  // KoboldCpp sends the string "null" while generation is ongoing.
+  finish_reason: z.string().nullish(),
+});
+
+// Uses the KoboldCpp API (https://lite.koboldai.net/koboldcpp_api), which performs raw text completion.
+// The prompt is formatted using a chat template, and objects are generated using GBNF grammars
+// instead of JSON schemas, which many local models and inference engines handle more reliably.
+export class KoboldBackend implements Backend {
+  controller = new AbortController();
+
+  // Identifies the current generation, so that it can be aborted on the server.
+  genkey = "";
+
+  modelNameCache?: { key: string; modelName: Promise<string | undefined> };
+
+  // Can be overridden by subclasses to provide custom settings.
+  getSettings(): KoboldBackendSettings {
+    return getState();
+  }
+
+  getUrl(path: string): URL {
+    return new URL(path, this.getSettings().koboldUrl);
+  }
+
+  async *getResponseStream(prompt: Prompt, params: Record<string, unknown> = {}): AsyncGenerator<string> {
+    const settings = this.getSettings();
+    const template = chatTemplates[settings.chatTemplate];
+
+    this.genkey = `KCPP${Math.random().toString(36).slice(2)}`;
+
+    try {
+      const response = await fetch(this.getUrl("/api/extra/generate/stream"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prompt: template.render(prompt),
+          stop_sequence: template.stopSequences,
+          max_context_length: settings.contextLength,
+          // This is hardcoded for the same reason as max_tokens in DefaultBackend.
+          max_length: 4096,
+          genkey: this.genkey,
+          ...params,
+        }),
+        signal: this.controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(
+          `KoboldCpp request failed (${response.status}): ${(await response.text()) || response.statusText}`,
+        );
+      }
+
+      // The response is a stream of server-sent events, separated by blank lines.
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          return;
+        }
+
+        buffer += value.replaceAll("\r\n", "\n");
+        const messages = buffer.split("\n\n");
+        buffer = messages.pop() ?? "";
+
+        for (const message of messages) {
+          const data = message
+            .split("\n")
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice("data:".length).trim())
+            .join("\n");
+
+          if (!data) {
+            continue;
+          }
+
+          const event = StreamEvent.parse(JSON.parse(data));
+
+          if (event.token) {
+            yield event.token;
+          }
+
+          if (event.finish_reason && event.finish_reason !== "null") {
+            await reader.cancel();
+            return;
+          }
+        }
+      }
+    } finally {
+      // An AbortController cannot be reused after calling abort().
+      this.controller = new AbortController();
+    }
+  }
+
+  async getResponse(prompt: Prompt, params: Record<string, unknown> = {}, onToken?: TokenCallback): Promise<string> {
+    const state = getState();
+
+    if (state.logPrompts) {
+      console.log(prompt.user);
+    }
+
+    if (state.logParams) {
+      console.log(isDraft(params) ? current(params) : params);
+    }
+
+    let response = "";
+    let count = 0;
+
+    // Send empty update at the start of the streaming process
+    // to facilitate displaying progress indicators.
+    if (onToken) {
+      onToken("", 0);
+    }
+
+    for await (const token of this.getResponseStream(prompt, params)) {
+      response += token;
+      count++;
+
+      if (onToken) {
+        onToken(token, count);
+      }
+    }
+
+    if (state.logResponses) {
+      console.log(response);
+    }
+
+    return response;
+  }
+
+  async getNarration(prompt: Prompt, onToken?: TokenCallback, params?: Record<string, unknown>): Promise<string> {
+    return await this.getResponse(prompt, params ?? this.getSettings().narrationParams, onToken);
+  }
+
+  async getObject<Schema extends z.ZodType, Type extends z.infer<Schema>>(
+    prompt: Prompt,
+    schema: Schema,
+    onToken?: TokenCallback,
+  ): Promise<Type> {
+    const settings = this.getSettings();
+
+    const params = {
+      ...settings.generationParams,
+      grammar: schemaToGrammar(schema),
+    };
+
+    // The grammar doesn't enforce all constraints of the schema (e.g. string lengths),
+    // so responses may still need to be retried.
+    return await generateObject(
+      prompt,
+      schema,
+      settings.maxObjectAttempts,
+      (prompt, onToken) => this.getResponse(prompt, params, onToken),
+      onToken,
+    );
+  }
+
+  abort(): void {
+    this.controller.abort();
+
+    // Closing the connection doesn't necessarily stop generation on the server.
+    fetch(this.getUrl("/api/extra/abort"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ genkey: this.genkey }),
+    }).catch(() => {
+      // The server might already be gone, in which case there is nothing to abort.
+    });
+  }
+
+  isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === "AbortError";
+  }
+
+  async getJson(path: string): Promise<unknown> {
+    const response = await fetch(this.getUrl(path), { signal: AbortSignal.timeout(10000) });
+
+    if (!response.ok) {
+      throw new Error(`KoboldCpp request failed (${response.status}): ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  // KoboldCpp serves a single model.
+  async getModels(): Promise<string[]> {
+    const { result } = z.object({ result: z.string() }).parse(await this.getJson("/api/v1/model"));
+    return [result];
+  }
+
+  // The model is chosen when starting KoboldCpp, so its name is only known to the server.
+  // It is requested once per server, as it is needed before every operation.
+  async getModelName(): Promise<string | undefined> {
+    const koboldUrl = this.getSettings().koboldUrl;
+
+    if (this.modelNameCache?.key !== koboldUrl) {
+      this.modelNameCache = {
+        key: koboldUrl,
+        modelName: this.getModels().then(
+          ([model]) => model,
+          () => {
+            // Failed requests are retried the next time the name is needed.
+            this.modelNameCache = undefined;
+            return undefined;
+          },
+        ),
+      };
+    }
+
+    return await this.modelNameCache.modelName;
+  }
+
+  // Returns the context size KoboldCpp was started with.
+  async getContextLength(): Promise<number | undefined> {
+    const { value } = z.object({ value: z.int() }).parse(await this.getJson("/api/extra/true_max_context_length"));
+    return value;
+  }
+}
@@ -0,0 +1,87 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import type { State } from "./state";
+
+// A stay of the protagonist at a location, from a location change to the next.
+export interface Visit {
+  // Number of the scene in the story, starting at 1.
+  sceneNumber: number;
+  narrations: string[];
+  // Summaries are created when the protagonist leaves, so the current scene has none.
+  summary?: string;
+}
+
+export interface MapNode {
+  locationIndex: number;
+  visits: Visit[];
+  characterIndices: number[];
+  // Position in the unit square.
+  x: number;
+  y: number;
+}
+
+export interface WorldMap {
+  nodes: MapNode[];
+  // Pairs of location indices between which the protagonist has traveled (in either direction).
+  edges: [number, number][];
+}
+
+export function getWorldMap(state: State): WorldMap {
+  const nodes: MapNode[] = state.locations.map((_, locationIndex) => ({
+    locationIndex,
+    visits: [],
+    characterIndices: [],
+    x: 0.5,
+    y: 0.5,
+  }));
+
+  const edges: [number, number][] = [];
+  let visit: Visit | undefined;
+  let previousLocationIndex: number | undefined;
+  let sceneCount = 0;
+
+  for (const event of state.events) {
+    if (event.type === "location_change") {
+      // Location change events contain the summary of the preceding scene.
+      if (visit) {
+        visit.summary = event.summary;
+      }
+
+      sceneCount++;
+      visit = { sceneNumber: sceneCount, narrations: [] };
+      nodes[event.locationIndex].visits.push(visit);
+
+      if (previousLocationIndex !== undefined && previousLocationIndex !== event.locationIndex) {
+        const edge: [number, number] = [
+          Math.min(previousLocationIndex, event.locationIndex),
+          Math.max(previousLocationIndex, event.locationIndex),
+        ];
+
+        if (!edges.some(([from, to]) => from === edge[0] && to === edge[1])) {
+          edges.push(edge);
+        }
+      }
+
+      previousLocationIndex = event.locationIndex;
+    } else if (event.type === "narration" && visit) {
+      visit.narrations.push(event.text);
+    }
+  }
+
+  for (const [index, character] of state.characters.entries()) {
+    nodes[character.locationIndex]?.characterIndices.push(index);
+  }
+
+  // Locations are arranged on a circle in the order in which they were discovered,
+  // which keeps most edges between neighbors, as the story usually moves on to new places.
+  if (nodes.length > 1) {
+    for (const [index, node] of nodes.entries()) {
+      const angle = (2 * Math.PI * index) / nodes.length - Math.PI / 2;
+      node.x = 0.5 + 0.4 * Math.cos(angle);
+      node.y = 0.5 + 0.4 * Math.sin(angle);
+    }
+  }
+
+  return { nodes, edges };
+}
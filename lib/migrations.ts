@@ -0,0 +1,247 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import type * as z from "zod/v4";
+
+type PersistedState = Record<string, unknown>;
+
+type Migration = (state: PersistedState) => void;
+
+// Calls the function for the timeline of the active branch (which is stored in the state itself)
+// and for the timelines of all inactive branches.
+// The traversal reflects the structure of the state as of version 3.
+function forEachTimeline(state: PersistedState, fn: (timeline: PersistedState) => void): void {
+  fn(state);
+
+  for (const branch of (state.branches as PersistedState[] | undefined) ?? []) {
+    if (branch.timeline) {
+      fn(branch.timeline as PersistedState);
+    }
+  }
+}
+
+// Calls the function for every character stored anywhere in the state,
+// including undo snapshots and inactive branches.
+function forEachCharacter(state: PersistedState, fn: (character: PersistedState) => void): void {
+  forEachTimeline(state, (timeline) => {
+    if (timeline.protagonist) {
+      fn(timeline.protagonist as PersistedState);
+    }
+
+    for (const character of (timeline.characters as PersistedState[] | undefined) ?? []) {
+      fn(character);
+    }
+
+    for (const snapshot of (timeline.snapshots as PersistedState[] | undefined) ?? []) {
+      fn(snapshot.protagonist as PersistedState);
+
+      for (const item of (snapshot.characters as { items: { value: PersistedState }[] }).items) {
+        fn(item.value);
+      }
+    }
+  });
+}
+
+// Each migration upgrades a persisted state from the version matching its index
+// to the next version. Migrations must not depend on the current schemas or on the
+// initial state, because those will keep changing, while the migrations must always
+// produce the state exactly as it was at the time they were written.
+//
+// Any change to schemas.State that invalidates previously valid states
+// (e.g. a new required field, or a renamed field) requires appending a migration to this list.
+const migrations: Migration[] = [
+  // 0 -> 1: Undo history, branches, and save slots.
+  (state) => {
+    state.snapshots ??= [];
+    state.branches ??= [{ name: "Main" }];
+    state.activeBranchIndex ??= 0;
+    state.saveSlots ??= [
+      {
+        id: "default",
+        name: "Campaign 1",
+        worldName: "",
+        protagonistName: "",
+        turnCount: 0,
+        lastPlayed: 0,
+      },
+    ];
+    state.activeSaveSlotId ??= "default";
+  },
+
+  // 1 -> 2: Genres. Only fantasy existed before.
+  (state) => {
+    state.genre ??= "fantasy";
+  },
+
+  // 2 -> 3: Tropes are defined by genre packs instead of being hardcoded.
+  (state) => {
+    const tropes: Record<string, string> = {
+      hiddenDestiny: "hidden_destiny",
+      betrayal: "betrayal",
+      oppositeSexMagnet: "opposite_sex_magnet",
+      sameSexMagnet: "same_sex_magnet",
+    };
+
+    state.tropes ??= Object.entries(tropes)
+      .filter(([field]) => state[field] === true)
+      .map(([, id]) => id);
+
+    for (const field of Object.keys(tropes)) {
+      delete state[field];
+    }
+  },
+
+  // 3 -> 4: Inventories.
+  (state) => {
+    forEachCharacter(state, (character) => {
+      character.items ??= [];
+    });
+  },
+
+  // 4 -> 5: Quest journal.
+  (state) => {
+    forEachTimeline(state, (timeline) => {
+      timeline.quests ??= [];
+
+      for (const snapshot of (timeline.snapshots as PersistedState[] | undefined) ?? []) {
+        snapshot.quests ??= [];
+      }
+    });
+  },
+
+  // 5 -> 6: Relationships with the protagonist.
+  (state) => {
+    forEachCharacter(state, (character) => {
+      character.relationship ??= { score: 0, notes: [] };
+    });
+  },
+
+  // 6 -> 7: Character status.
+  (state) => {
+    forEachCharacter(state, (character) => {
+      character.status ??= "active";
+    });
+  },
+
+  // 7 -> 8: Pinned characters.
+  (state) => {
+    forEachCharacter(state, (character) => {
+      character.pinned ??= false;
+    });
+  },
+
+  // 8 -> 9: Tokenizer selection.
+  (state) => {
+    state.tokenizer ??= "auto";
+  },
+
+  // 9 -> 10: Chapter summaries.
+  (state) => {
+    forEachTimeline(state, (timeline) => {
+      timeline.chapters ??= [];
+
+      for (const snapshot of (timeline.snapshots as PersistedState[] | undefined) ?? []) {
+        snapshot.chapterCount ??= 0;
+      }
+    });
+  },
+
+  // 10 -> 11: Retrieval of passages that no longer fit into the context.
+  (state) => {
+    state.retrievalShare ??= 0.1;
+  },
+
+  // 11 -> 12: Lorebook.
+  (state) => {
+    state.lorebook ??= [];
+  },
+
+  // 12 -> 13: Ollama backend.
+  (state) => {
+    state.ollamaUrl ??= "http://localhost:11434/";
+    state.ollamaModel ??= "";
+    state.ollamaKeepAlive ??= "";
+  },
+
+  // 13 -> 14: KoboldCpp backend.
+  (state) => {
+    state.koboldUrl ??= "http://localhost:5001/";
+    state.chatTemplate ??= "chatml";
+  },
+
+  // 14 -> 15: Retrying invalid objects.
+  (state) => {
+    state.maxObjectAttempts ??= 3;
+  },
+];
+
+export const version = migrations.length;
+
+function formatIssues(error: z.ZodError): string {
+  const maxIssues = 10;
+
+  const lines = error.issues.slice(0, maxIssues).map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.map(String).join(".") : "(root)";
+    return `${path}: ${issue.message}`;
+  });
+
+  if (error.issues.length > maxIssues) {
+    lines.push(`...and ${error.issues.length - maxIssues} more`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Upgrades a persisted state to the current version, and validates the result.
+ * @param state The persisted state. Will be modified in place.
+ * @param fromVersion The version the state was persisted with.
+ * @param schema The schema the upgraded state must conform to.
+ * @returns The upgraded state. Properties not covered by the schema are preserved.
+ */
+export function migrate<Schema extends z.ZodType>(
+  state: unknown,
+  fromVersion: number,
+  schema: Schema,
+): z.infer<Schema> {
+  if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+    throw new Error(`Invalid state version: ${fromVersion}`);
+  }
+
+  if (fromVersion > version) {
+    throw new Error(
+      `State was saved by a newer version of Waidrin (state version ${fromVersion}, supported up to ${version})`,
+    );
+  }
+
+  if (typeof state !== "object" || state === null || Array.isArray(state)) {
+    throw new Error("State is not an object");
+  }
+
+  for (const migration of migrations.slice(fromVersion)) {
+    migration(state as PersistedState);
+  }
+
+  return validate(state, schema, fromVersion);
+}
+
+/**
+ * Validates a persisted state that has been upgraded to the current version.
+ * @param state The persisted state.
+ * @param schema The schema the state must conform to.
+ * @param fromVersion The version the state was persisted with, for error messages.
+ * @returns The state. Properties not covered by the schema are preserved.
+ */
+export function validate<Schema extends z.ZodType>(
+  state: unknown,
+  schema: Schema,
+  fromVersion: number = version,
+): z.infer<Schema> {
+  const result = schema.safeParse(state);
+
+  if (!result.success) {
+    throw new Error(`Invalid state (version ${fromVersion}):\n${formatIssues(result.error)}`);
+  }
+
+  return state as z.infer<Schema>;
+}
@@ -0,0 +1,189 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, test } from "node:test";
+import * as z from "zod/v4";
+import { OllamaBackend, type OllamaBackendSettings } from "./ollama";
+
+type Handler = (request: IncomingMessage, body: Record<string, unknown>, response: ServerResponse) => void;
+
+// Stands in for an Ollama server. Each test sets the handler for the requests it makes.
+let handler: Handler = (_request, _body, response) => response.writeHead(500).end();
+
+const server = createServer((request, response) => {
+  let body = "";
+  request.on("data", (chunk) => {
+    body += chunk;
+  });
+  request.on("end", () => handler(request, JSON.parse(body || "{}"), response));
+});
+
+class TestBackend extends OllamaBackend {
+  getSettings(): OllamaBackendSettings {
+    return {
+      ollamaUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      ollamaModel: "test-model",
+      ollamaKeepAlive: "10m",
+      contextLength: 8192,
+      maxObjectAttempts: 2,
+      generationParams: { temperature: 0.5 },
+      narrationParams: { temperature: 0.8 },
+    };
+  }
+}
+
+function chunk(content: string, done = false): string {
+  return `${JSON.stringify({ message: { role: "assistant", content }, done })}\n`;
+}
+
+const prompt = { system: "system prompt", user: "user prompt" };
+
+describe("OllamaBackend", () => {
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  test("streams narration from NDJSON chunks", async () => {
+    let requestBody: Record<string, unknown> = {};
+
+    handler = (request, body, response) => {
+      assert.equal(request.url, "/api/chat");
+      requestBody = body;
+      response.writeHead(200, { "Content-Type": "application/x-ndjson" });
+      // Chunks don't necessarily end at line boundaries.
+      const stream = chunk("Once ") + chunk("upon ") + chunk("a time.") + chunk("", true);
+      response.write(stream.slice(0, 20));
+      response.end(stream.slice(20));
+    };
+
+    const tokens: string[] = [];
+    const counts: number[] = [];
+
+    const narration = await new TestBackend().getNarration(prompt, (token, count) => {
+      tokens.push(token);
+      counts.push(count);
+    });
+
+    assert.equal(narration, "Once upon a time.");
+    assert.deepEqual(tokens, ["", "Once ", "upon ", "a time."]);
+    assert.deepEqual(counts, [0, 1, 2, 3]);
+
+    assert.equal(requestBody.model, "test-model");
+    assert.equal(requestBody.stream, true);
+    assert.equal(requestBody.keep_alive, "10m");
+    assert.equal(requestBody.format, undefined);
+    assert.deepEqual(requestBody.messages, [
+      { role: "system", content: "system prompt" },
+      { role: "user", content: "user prompt" },
+    ]);
+    assert.deepEqual(requestBody.options, { num_ctx: 8192, num_predict: 4096, temperature: 0.8 });
+  });
+
+  test("generates objects constrained by a JSON schema", async () => {
+    const formats: unknown[] = [];
+
+    handler = (_request, body, response) => {
+      formats.push(body.format);
+      response.writeHead(200, { "Content-Type": "application/x-ndjson" });
+      response.end(chunk('{"name": ') + chunk('"Aldric", "age": 42}') + chunk("", true));
+    };
+
+    const schema = z.object({ name: z.string(), age: z.int() });
+    const object = await new TestBackend().getObject(prompt, schema);
+
+    assert.deepEqual(object, { name: "Aldric", age: 42 });
+    assert.deepEqual(formats, [z.toJSONSchema(schema)]);
+  });
+
+  test("retries objects that don't match the schema", async () => {
+    const responses = ['{"name": "Aldric"}', '{"name": "Aldric", "age": 42}'];
+    let requestCount = 0;
+
+    handler = (_request, _body, response) => {
+      response.writeHead(200, { "Content-Type": "application/x-ndjson" });
+      response.end(chunk(responses[requestCount++]) + chunk("", true));
+    };
+
+    const attempts: (number | undefined)[] = [];
+    const object = await new TestBackend().getObject(
+      prompt,
+      z.object({ name: z.string(), age: z.int() }),
+      (_token, _count, attempt) => attempts.push(attempt),
+    );
+
+    assert.deepEqual(object, { name: "Aldric", age: 42 });
+    assert.equal(requestCount, 2);
+    assert.ok(attempts.includes(2));
+  });
+
+  test("reports errors returned as JSON", async () => {
+    handler = (_request, _body, response) => {
+      response.writeHead(404, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ error: 'model "test-model" not found, try pulling it first' }));
+    };
+
+    await assert.rejects(new TestBackend().getNarration(prompt), {
+      message: 'Ollama request failed (404): model "test-model" not found, try pulling it first',
+    });
+  });
+
+  test("reports errors returned as HTML", async () => {
+    handler = (_request, _body, response) => {
+      response.writeHead(502, { "Content-Type": "text/html" });
+      response.end("<html><body>Bad Gateway</body></html>");
+    };
+
+    await assert.rejects(new TestBackend().getNarration(prompt), {
+      message: "Ollama request failed (502): <html><body>Bad Gateway</body></html>",
+    });
+  });
+
+  test("reports errors sent during streaming", async () => {
+    handler = (_request, _body, response) => {
+      response.writeHead(200, { "Content-Type": "application/x-ndjson" });
+      response.end(`${chunk("Once ")}${JSON.stringify({ error: "out of memory" })}\n`);
+    };
+
+    await assert.rejects(new TestBackend().getNarration(prompt), { message: "Ollama error: out of memory" });
+  });
+
+  test("aborts generation mid-stream", async () => {
+    const backend = new TestBackend();
+
+    handler = (_request, _body, response) => {
+      response.writeHead(200, { "Content-Type": "application/x-ndjson" });
+      // The response is never finished, so the request can only end by being aborted.
+      response.write(chunk("Once "));
+    };
+
+    const error = await backend
+      .getNarration(prompt, (_token, count) => {
+        if (count > 0) {
+          backend.abort();
+        }
+      })
+      .then(
+        () => undefined,
+        (error: unknown) => error,
+      );
+
+    assert.ok(backend.isAbortError(error), `Expected an abort error, got ${error}`);
+    assert.ok(!backend.isAbortError(new Error("other")));
+
+    // The backend can be used again after aborting.
+    handler = (_request, _body, response) => {
+      response.writeHead(200, { "Content-Type": "application/x-ndjson" });
+      response.end(chunk("Again.", true));
+    };
+
+    assert.equal(await backend.getNarration(prompt), "Again.");
+  });
+});
@@ -0,0 +1,258 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { current, isDraft } from "immer";
+import * as z from "zod/v4";
+import type { Backend, TokenCallback } from "./backend";
+import { generateObject } from "./json";
+import type { Prompt } from "./prompts";
+import { getState } from "./state";
+
+export interface OllamaBackendSettings {
+  ollamaUrl: string;
+  ollamaModel: string;
+  ollamaKeepAlive: string;
+  contextLength: number;
+  maxObjectAttempts: number;
+  generationParams: Record<string, unknown>;
+  narrationParams: Record<string, unknown>;
+}
+
+const ChatResponseChunk = z.object({
+  message: z
+    .object({
+      content: z.string(),
+    })
+    .optional(),
+  done: z.boolean().optional(),
+  error: z.string().optional(),
+});
+
+const ShowResponse = z.object({
+  // Keys are prefixed with the model architecture, e.g. "llama.context_length".
+  model_info: z.record(z.string(), z.unknown()),
+});
+
+const TagsResponse = z.object({
+  models: z
+    .object({
+      name: z.string(),
+    })
+    .array(),
+});
+
+// Ollama returns errors as JSON objects, but proxies in front of it might return HTML pages or plain text.
+async function getErrorMessage(response: Response): Promise<string> {
+  const text = await response.text();
+
+  try {
+    const error = ChatResponseChunk.safeParse(JSON.parse(text)).data?.error;
+    if (error) {
+      return error;
+    }
+  } catch {
+    // Not JSON, so the text itself is the best available description.
+  }
+
+  return text || response.statusText;
+}
+
+// Uses Ollama's native API (https://github.com/ollama/ollama/blob/main/docs/api.md),
+// which supports JSON schema constraints through the "format" parameter,
+// and allows setting the context length and how long the model stays loaded.
+export class OllamaBackend implements Backend {
+  controller = new AbortController();
+
+  // Can be overridden by subclasses to provide custom settings.
+  getSettings(): OllamaBackendSettings {
+    return getState();
+  }
+
+  getUrl(path: string): URL {
+    return new URL(path, this.getSettings().ollamaUrl);
+  }
+
+  async *getResponseStream(
+    prompt: Prompt,
+    params: Record<string, unknown> = {},
+    format?: unknown,
+  ): AsyncGenerator<string> {
+    const settings = this.getSettings();
+
+    try {
+      const response = await fetch(this.getUrl("/api/chat"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: settings.ollamaModel,
+          messages: [
+            { role: "system", content: prompt.system },
+            { role: "user", content: prompt.user },
+          ],
+          stream: true,
+          format,
+          // Ollama accepts sampling parameters only as options, and ignores unknown options.
+          options: {
+            num_ctx: settings.contextLength,
+            // This is hardcoded for the same reason as max_tokens in DefaultBackend.
+            num_predict: 4096,
+            ...params,
+          },
+          keep_alive: settings.ollamaKeepAlive || undefined,
+        }),
+        signal: this.controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Ollama request failed (${response.status}): ${await getErrorMessage(response)}`);
+      }
+
+      // The response is a stream of JSON objects, one per line.
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          return;
+        }
+
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          if (!line.trim()) {
+            continue;
+          }
+
+          const chunk = ChatResponseChunk.parse(JSON.parse(line));
+
+          if (chunk.error) {
+            throw new Error(`Ollama error: ${chunk.error}`);
+          }
+
+          if (chunk.message?.content) {
+            yield chunk.message.content;
+          }
+
+          if (chunk.done) {
+            await reader.cancel();
+            return;
+          }
+        }
+      }
+    } finally {
+      // An AbortController cannot be reused after calling abort().
+      this.controller = new AbortController();
+    }
+  }
+
+  async getResponse(
+    prompt: Prompt,
+    params: Record<string, unknown> = {},
+    onToken?: TokenCallback,
+    format?: unknown,
+  ): Promise<string> {
+    const state = getState();
+
+    if (state.logPrompts) {
+      console.log(prompt.user);
+    }
+
+    if (state.logParams) {
+      console.log(isDraft(params) ? current(params) : params);
+    }
+
+    let response = "";
+    let count = 0;
+
+    // Send empty update at the start of the streaming process
+    // to facilitate displaying progress indicators.
+    if (onToken) {
+      onToken("", 0);
+    }
+
+    for await (const token of this.getResponseStream(prompt, params, format)) {
+      response += token;
+      count++;
+
+      if (onToken) {
+        onToken(token, count);
+      }
+    }
+
+    if (state.logResponses) {
+      console.log(response);
+    }
+
+    return response;
+  }
+
+  async getNarration(prompt: Prompt, onToken?: TokenCallback, params?: Record<string, unknown>): Promise<string> {
+    return await this.getResponse(prompt, params ?? this.getSettings().narrationParams, onToken);
+  }
+
+  async getObject<Schema extends z.ZodType, Type extends z.infer<Schema>>(
+    prompt: Prompt,
+    schema: Schema,
+    onToken?: TokenCallback,
+  ): Promise<Type> {
+    const settings = this.getSettings();
+    const format = z.toJSONSchema(schema);
+
+    return await generateObject(
+      prompt,
+      schema,
+      settings.maxObjectAttempts,
+      (prompt, onToken) => this.getResponse(prompt, settings.generationParams, onToken, format),
+      onToken,
+    );
+  }
+
+  abort(): void {
+    this.controller.abort();
+  }
+
+  isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === "AbortError";
+  }
+
+  async getModelName(): Promise<string | undefined> {
+    return this.getSettings().ollamaModel || undefined;
+  }
+
+  // Returns the names of the models that are installed on the server.
+  async getModels(): Promise<string[]> {
+    const response = await fetch(this.getUrl("/api/tags"), { signal: AbortSignal.timeout(10000) });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list Ollama models (${response.status}): ${await getErrorMessage(response)}`);
+    }
+
+    return TagsResponse.parse(await response.json()).models.map((model) => model.name);
+  }
+
+  // Returns the context length the model was trained with. Note that Ollama allocates memory
+  // for the full context length, so smaller values can be preferable on limited hardware.
+  async getContextLength(): Promise<number | undefined> {
+    const response = await fetch(this.getUrl("/api/show"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: this.getSettings().ollamaModel }),
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to get Ollama model information (${response.status}): ${await getErrorMessage(response)}`,
+      );
+    }
+
+    const { model_info } = ShowResponse.parse(await response.json());
+    const key = Object.keys(model_info).find((key) => key.endsWith(".context_length"));
+
+    return key ? z.int().safeParse(model_info[key]).data : undefined;
+  }
+}
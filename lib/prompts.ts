@@ -1,9 +1,11 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
 
-import { convertLocationChangeEventToText, getApproximateTokenCount, getContext } from "./context";
-import * as schemas from "./schemas";
-import type { LocationChangeEvent, State } from "./state";
+import { convertLocationChangeEventToText, getContext, getLore } from "./context";
+import { getGenrePack, getRaceName } from "./genres";
+import { getRelevantPassages } from "./retrieval";
+import type { Character, CharacterStatus, Location, LocationChangeEvent, State } from "./state";
+import { countTokens } from "./tokenizers";
 
 export interface Prompt {
   system: string;
@@ -18,47 +20,89 @@ function normalize(text: string): string {
   return text.replaceAll(singleNewline, " ").trim();
 }
 
-function makePrompt(userPrompt: string): Prompt {
+function makePrompt(userPrompt: string, state: State): Prompt {
+  const genre = getGenrePack(state.genre);
+
   return {
-    system: "You are the game master of a text-based fantasy role-playing game.",
+    system: normalize(
+      `You are the game master of a text-based ${genre.adjective} role-playing game.\n${genre.rules ?? ""}`,
+    ),
     user: normalize(userPrompt),
   };
 }
 
-export const generateWorldPrompt = makePrompt(`
-Create a fictional world for a fantasy adventure RPG and return its name
+export function generateWorldPrompt(state: State): Prompt {
+  const genre = getGenrePack(state.genre);
+
+  return makePrompt(
+    `
+Create a fictional world for a ${genre.adjective} adventure RPG and return its name
 and a short description (100 words maximum) as a JSON object.
 Do not use a cliched name like 'Eldoria'.
-The world is populated by humans, elves, and dwarves.
-`);
+${genre.worldPrompt}
+`,
+    state,
+  );
+}
+
+export function generateLorebookPrompt(state: State): Prompt {
+  const genre = getGenrePack(state.genre);
+
+  return makePrompt(
+    `
+Here is the description of the world of ${state.world.name}, the setting of a ${genre.adjective} adventure:
+
+${state.world.description}
+
+Create 5 lorebook entries that flesh out this world, covering factions, important places, history,
+and the rules of magic or technology. Give each entry a short title, a description (100 words maximum),
+and 1-5 keywords (names or single words) whose appearance in the story should bring the entry to mind.
+Return the entries as an array of JSON objects.
+`,
+    state,
+  );
+}
 
 export function generateProtagonistPrompt(state: State): Prompt {
-  return makePrompt(`
-Create a ${state.protagonist.gender} ${state.protagonist.race} protagonist
-for a fantasy adventure set in the world of ${state.world.name}.
+  const genre = getGenrePack(state.genre);
+  const race = getRaceName(genre, state.protagonist.race).toLowerCase();
+
+  return makePrompt(
+    `
+Create a ${state.protagonist.gender} ${race} protagonist
+for a ${genre.adjective} adventure set in the world of ${state.world.name}.
 
 ${state.world.description}
 
 Return the character description as a JSON object. Include a short biography (100 words maximum).
-`);
+`,
+    state,
+  );
 }
 
 export function generateStartingLocationPrompt(state: State): Prompt {
-  return makePrompt(`
-Create a starting location for a fantasy adventure set in the world of ${state.world.name}.
+  const genre = getGenrePack(state.genre);
+
+  return makePrompt(
+    `
+Create a starting location for a ${genre.adjective} adventure set in the world of ${state.world.name}.
 
 ${state.world.description}
 
 Return the name and type of the location, and a short description (100 words maximum), as a JSON object.
-Choose from the following location types: ${Object.values(schemas.LocationType.enum).join(", ")}
-`);
+Choose from the following location types: ${genre.locationTypes.map((type) => type.id).join(", ")}
+`,
+    state,
+  );
 }
 
 export function generateStartingCharactersPrompt(state: State): Prompt {
+  const genre = getGenrePack(state.genre);
   const location = state.locations[state.protagonist.locationIndex];
 
-  return makePrompt(`
-This is the start of a fantasy adventure set in the world of ${state.world.name}. ${state.world.description}
+  return makePrompt(
+    `
+This is the start of a ${genre.adjective} adventure set in the world of ${state.world.name}. ${state.world.description}
 
 The protagonist is ${state.protagonist.name}. ${state.protagonist.biography}
 
@@ -67,43 +111,221 @@ ${state.protagonist.name} is about to enter ${location.name}. ${location.descrip
 Create 5 characters that ${state.protagonist.name} might encounter at ${location.name}.
 Return the character descriptions as an array of JSON objects.
 Include a short biography (100 words maximum) for each character.
-`);
+`,
+    state,
+  );
 }
 
-const makeMainPromptPreamble = (
-  state: State,
-): string => `This is a fantasy adventure RPG set in the world of ${state.world.name}. ${state.world.description}
+function makeMainPromptPreamble(state: State): string {
+  const genre = getGenrePack(state.genre);
+  const tropes = genre.tropes.filter((trope) => state.tropes.includes(trope.id));
+
+  let preamble = `This is a ${genre.adjective} adventure RPG set in the world of ${state.world.name}. ${state.world.description}
 
 The protagonist (who you should refer to as "you" in your narration, as the adventure happens from their perspective)
 is ${state.protagonist.name}. ${state.protagonist.biography}`;
 
+  if (tropes.length > 0) {
+    preamble += `\n\n${tropes.map((trope) => trope.prompt).join(" ")}`;
+  }
+
+  return preamble;
+}
+
+function describeItems(character: Character): string {
+  return character.items.map((item) => `${item.name} (${item.description})`).join("; ");
+}
+
+function makeInventoryText(state: State): string {
+  const protagonist = state.protagonist;
+
+  const lines = [
+    protagonist.items.length > 0
+      ? `${protagonist.name} is carrying the following items: ${describeItems(protagonist)}.`
+      : `${protagonist.name} is not carrying any items of note.`,
+  ];
+
+  for (const character of state.characters) {
+    if (character.locationIndex === protagonist.locationIndex && character.items.length > 0) {
+      lines.push(`${character.name} is carrying the following items: ${describeItems(character)}.`);
+    }
+  }
+
+  return lines.join(" ");
+}
+
+export type Disposition = "hostile" | "unfriendly" | "neutral" | "friendly" | "devoted";
+
+export function getDisposition(score: number): Disposition {
+  if (score <= -60) {
+    return "hostile";
+  } else if (score <= -20) {
+    return "unfriendly";
+  } else if (score < 20) {
+    return "neutral";
+  } else if (score < 60) {
+    return "friendly";
+  } else {
+    return "devoted";
+  }
+}
+
+function makeRelationshipsText(state: State): string {
+  const protagonist = state.protagonist;
+
+  return state.characters
+    .filter((character) => character.locationIndex === protagonist.locationIndex && character.status === "active")
+    .map((character) => {
+      const { score, notes } = character.relationship;
+      let text = `${character.name} is ${getDisposition(score)} towards ${protagonist.name} (relationship score ${score} on a scale from -100 to 100).`;
+      if (notes.length > 0) {
+        text += ` ${character.name} remembers the following: ${notes.join(" ")}`;
+      }
+      return text;
+    })
+    .join(" ");
+}
+
+const statusDescriptions: Record<Exclude<CharacterStatus, "active">, string> = {
+  dead: "are dead, and must not appear in the story again, except as corpses or in memories",
+  imprisoned: "are imprisoned, and cannot appear in the story unless they are visited or freed",
+  departed: "have left for good, and must not appear in the story again",
+};
+
+function makeStatusText(state: State): string {
+  return Object.entries(statusDescriptions)
+    .map(([status, description]) => {
+      const names = state.characters
+        .filter((character) => character.status === status)
+        .map((character) => character.name);
+      return names.length > 0 ? `The following characters ${description}: ${names.join(", ")}.` : "";
+    })
+    .filter((text) => text)
+    .join(" ");
+}
+
+function makePinnedCharactersText(state: State): string {
+  const pinnedCharacters = state.characters.filter((character) => character.pinned);
+
+  if (pinnedCharacters.length === 0) {
+    return "";
+  }
+
+  return `The following characters are important to the story:
+
+${pinnedCharacters
+  .map((character) => {
+    const location = state.locations[character.locationIndex];
+    const status = character.status === "active" ? `currently at ${location.name}` : character.status;
+    return `${character.name} (${status}): ${character.biography}`;
+  })
+  .join("\n\n")}`;
+}
+
+// Describes the tracked state of the story, which might not be evident from the context
+// if the events that established it have been summarized or dropped.
+function makeTrackedStateText(state: State): string {
+  return [
+    makePinnedCharactersText(state),
+    makeInventoryText(state),
+    makeRelationshipsText(state),
+    makeStatusText(state),
+  ]
+    .filter((text) => text)
+    .join("\n\n");
+}
+
+const memoriesHeading = "Here are some relevant passages from earlier in the story:";
+
+const loreHeading = "Here is some background information about the world that is relevant to the current situation:";
+
+// Maximum share of the context budget used for lorebook entries.
+const loreShare = 0.15;
+
 function makeMainPrompt(prompt: string, state: State): Prompt {
   const promptPreamble = makeMainPromptPreamble(state);
+  const trackedState = makeTrackedStateText(state);
 
-  // get the tokens used by the prompt and the preamble
+  // get the tokens used by the prompt, the preamble, and the tracked state
   const normalizedPrompt = normalize(prompt);
-  const promptTokens = getApproximateTokenCount(normalizedPrompt);
-  const preambleTokens = getApproximateTokenCount(promptPreamble);
+  const promptTokens = countTokens(normalizedPrompt);
+  const preambleTokens = countTokens(promptPreamble);
+  const trackedStateTokens = countTokens(trackedState);
+
+  // get the lorebook entries triggered by the recent story, within their share of the remaining budget
+  const remainingTokenBudget = state.inputLength - promptTokens - preambleTokens - trackedStateTokens;
+  const lore = getLore(state, Math.floor(remainingTokenBudget * loreShare) - countTokens(loreHeading));
+  const loreText = lore ? `${loreHeading}\n\n${lore}` : "";
+
+  // get the context based on the token budget minus the prompt, preamble, tracked state, and lore tokens
+  const contextTokenBudget = remainingTokenBudget - countTokens(loreText);
+  let context = getContext(state, contextTokenBudget);
+  let memories = "";
+
+  // If parts of the story had to be summarized or dropped, a share of the budget is used
+  // for passages from those parts that are relevant to the current scene instead.
+  const isComplete = state.events.every((event) => event.type !== "narration" || context.includes(event.text));
+
+  if (!isComplete && state.retrievalShare > 0) {
+    const memoryTokenBudget = Math.floor(contextTokenBudget * state.retrievalShare);
+    let reducedContext: string | undefined;
+
+    try {
+      reducedContext = getContext(state, contextTokenBudget - memoryTokenBudget);
+    } catch {
+      // The current scene doesn't fit into the reduced budget, so the full budget is used for the context.
+    }
+
+    if (reducedContext !== undefined) {
+      context = reducedContext;
 
-  // get the context based on the token budget minus the prompt and preamble tokens
-  const contextTokenBudget = state.inputLength - promptTokens - preambleTokens;
-  const context = getContext(state, contextTokenBudget);
+      const passages = getRelevantPassages(state, context, memoryTokenBudget - countTokens(memoriesHeading));
+      if (passages.length > 0) {
+        memories = `${memoriesHeading}\n${passages.join("\n\n")}`;
+      }
+    }
+  }
 
-  return makePrompt(`
+  return makePrompt(
+    `
 ${promptPreamble}
 
+${loreText}
+
+${memories}
+
 Here is what has happened so far:
 ${context}
 
+${trackedState}
+
 
 
 ${normalizedPrompt}
-`);
+`,
+    state,
+  );
+}
+
+function describeActiveQuests(state: State): string {
+  return state.quests
+    .filter((quest) => quest.status === "active")
+    .map((quest) => `${quest.title} (${quest.description})`)
+    .join("; ");
 }
 
 export function narratePrompt(state: State, action?: string): Prompt {
+  const quests = describeActiveQuests(state);
+
   return makeMainPrompt(
     `
+${
+  quests
+    ? `The protagonist (${state.protagonist.name}) is pursuing the following goals: ${quests}.
+Let the story develop in a way that keeps these goals relevant, without forcing them.`
+    : ""
+}
+
 ${action ? `The protagonist (${state.protagonist.name}) has chosen to do the following: ${action}.` : ""}
 Narrate what happens next, using novel-style prose, in the present tense.
 Prioritize dialogue over descriptions.
@@ -119,11 +341,27 @@ Do not explicitly ask the protagonist for a response at the end; they already kn
   );
 }
 
+export function continueNarrationPrompt(state: State): Prompt {
+  return makeMainPrompt(
+    `
+The narration above stopped too early. Continue it from exactly where it stopped,
+using the same style, tense, and formatting.
+Do not repeat or summarize anything that has already been narrated.
+Write 1-2 paragraphs (no more than 150 words in total).
+Stop when it is the protagonist's turn to speak or act.
+`,
+    state,
+  );
+}
+
 export function generateActionsPrompt(state: State): Prompt {
+  const quests = describeActiveQuests(state);
+
   return makeMainPrompt(
     `
 Suggest 3 options for what the protagonist (${state.protagonist.name}) could do or say next.
 Each option should be a single, short sentence that starts with a verb.
+${quests ? `The protagonist is pursuing the following goals: ${quests}. At least one option should advance one of these goals.` : ""}
 Return the options as a JSON array of strings.
 `,
     state,
@@ -140,12 +378,38 @@ Answer with "yes" or "no".
   );
 }
 
-export function generateNewLocationPrompt(state: State): Prompt {
+export function chooseDestinationPrompt(state: State, locationNames: string[], newLocationChoice: string): Prompt {
+  return makeMainPrompt(
+    `
+The protagonist (${state.protagonist.name}) has left ${state.locations[state.protagonist.locationIndex].name}.
+Have they returned to one of the following places they have visited before?
+${locationNames.join(", ")}
+If so, answer with the name of that place. Otherwise, answer with "${newLocationChoice}".
+`,
+    state,
+  );
+}
+
+// If a known location is given, the protagonist is returning there, and only the accompanying characters are requested.
+export function generateNewLocationPrompt(state: State, knownLocation?: Location): Prompt {
+  const unavailableCharacters = state.characters.filter((character) => character.status !== "active");
+
   return makeMainPrompt(
     `
 The protagonist (${state.protagonist.name}) has left ${state.locations[state.protagonist.locationIndex].name}.
-Return the name and type of their new location, and a short description (100 words maximum), as a JSON object.
-Also include the names of the characters that are going to accompany ${state.protagonist.name} there, if any.
+${
+  knownLocation
+    ? `They have returned to ${knownLocation.name}.
+Return the names of the characters that are going to accompany ${state.protagonist.name} there, if any, as a JSON object.`
+    : `Return the name and type of their new location, and a short description (100 words maximum), as a JSON object.
+Also include the names of the characters that are going to accompany ${state.protagonist.name} there, if any.`
+}
+${
+  unavailableCharacters.length > 0
+    ? `The following characters cannot accompany ${state.protagonist.name}:
+${unavailableCharacters.map((character) => `${character.name} (${character.status})`).join(", ")}.`
+    : ""
+}
 `,
     state,
   );
@@ -170,6 +434,53 @@ Include a short biography (100 words maximum) for each character.
   );
 }
 
+export function trackChangesPrompt(state: State, narration: string, characterNames: string[]): Prompt {
+  const protagonistName = state.protagonist.name;
+  const quests = describeActiveQuests(state);
+  const names = characterNames.length > 0 ? characterNames.join(", ") : "(none)";
+
+  return makeMainPrompt(
+    `
+Here is the most recent narration:
+
+${narration}
+
+${quests ? `The protagonist (${protagonistName}) is currently pursuing the following goals: ${quests}.` : `The protagonist (${protagonistName}) is currently not pursuing any goals.`}
+
+Based only on this narration, determine what has changed for the protagonist
+and for the following characters: ${names}.
+Only include changes that clearly happened in this narration.
+
+Items: Determine which items were gained or lost by ${protagonistName} or the characters listed above.
+Only include physical items that were clearly picked up, received, bought, or crafted (gained),
+or dropped, given away, sold, stolen, used up, or destroyed (lost).
+Include a short description (one sentence) for each gained item.
+For lost items, use the exact names from the current inventories.
+
+Goals: Determine whether ${protagonistName} has taken on any new goals
+(for example, by accepting a task, making a promise, or deciding to pursue something),
+and whether any of the current goals have been completed or have become impossible to achieve (failed).
+For each new goal, include a short title and a one-sentence description.
+For finished goals, use the exact titles from the list of current goals.
+
+Relationships: Determine how the attitudes of the characters listed above
+towards ${protagonistName} have changed. For each character whose attitude has changed,
+return a score change between -30 and 30, where positive values mean that the character
+now thinks more highly of ${protagonistName}.
+Small gestures warrant small changes, while favors, rescues, insults, or betrayals warrant large ones.
+If something happened that the character will remember, include a short note (one sentence)
+describing it, using proper names.
+
+Statuses: Determine whether any of the characters listed above have died,
+been imprisoned, or left the story for good (departed), and whether any of them
+who were previously imprisoned or departed have been freed or have returned (active).
+
+Return all changes as a single JSON object. Use empty arrays for anything that hasn't changed.
+`,
+    state,
+  );
+}
+
 export function summarizeScenePrompt(state: State): Prompt {
   const protagonistName = state.protagonist.name;
 
@@ -216,5 +527,72 @@ Here's the scene to summarize:
 ${narrationTexts}
 `;
 
-  return makePrompt(userPrompt);
+  return makePrompt(userPrompt, state);
+}
+
+export function summarizeChapterPrompt(state: State, sceneSummaries: string[]): Prompt {
+  const userPrompt = `
+${makeMainPromptPreamble(state)}
+
+You will merge the summaries of several consecutive scenes into a single chapter summary.
+This summary replaces the scene summaries as long-term context for future generations.
+Write a 1-2 paragraph chapter summary (no more than 400 words in total).
+Use proper names and refer to the protagonist as "you".
+Keep only the facts that will still matter later, such as
+important decisions, discoveries, changes in relationships,
+and unresolved goals, promises, threats, or deadlines.
+Do not add new facts or include stylistic prose.
+Return only the summary with no preamble, labels, markdown or quotes.
+
+Here are the scene summaries, in chronological order:
+
+${sceneSummaries.join("\n\n")}
+`;
+
+  return makePrompt(userPrompt, state);
+}
+
+export function updateSynopsisPrompt(state: State, synopsis: string | undefined, chapterSummary: string): Prompt {
+  const userPrompt = `
+${makeMainPromptPreamble(state)}
+
+You will maintain a synopsis of the entire story so far. This synopsis is always kept
+as long-term context for future generations, even after everything else has been forgotten.
+Write a synopsis of 2-3 paragraphs (no more than 500 words in total) that covers
+${synopsis ? "both the previous synopsis and the latest chapter" : "the first chapter of the story"}.
+Use proper names and refer to the protagonist as "you".
+The further back events are, the more briefly they should be described,
+but never leave out the major turning points of the story.
+Do not add new facts or include stylistic prose.
+Return only the synopsis with no preamble, labels, markdown or quotes.
+
+${synopsis ? `Here is the previous synopsis:\n\n${synopsis}\n\n` : ""}Here is the summary of the latest chapter:
+
+${chapterSummary}
+`;
+
+  return makePrompt(userPrompt, state);
+}
+
+// Unlike other prompts, this one is not normalized, because the line breaks
+// in the previous response and in the error are meaningful.
+export function retryObjectPrompt(prompt: Prompt, response: string, error: string): Prompt {
+  const userPrompt = `
+${prompt.user}
+
+You already responded to this request, but your response was invalid. Here is your previous response:
+
+${response}
+
+Here is what is wrong with it:
+
+${error}
+
+Respond again, fixing these problems. Return only valid JSON with no preamble, explanation or markdown.
+`;
+
+  return {
+    system: prompt.system,
+    user: userPrompt.trim(),
+  };
 }
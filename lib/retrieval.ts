@@ -0,0 +1,179 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import type { State } from "./state";
+import { countTokens } from "./tokenizers";
+
+// BM25 parameters (standard values).
+const k1 = 1.2;
+const b = 0.75;
+
+// Common words that carry no information about what a passage is about.
+const stopWords = new Set(
+  (
+    "a an and are as at be been but by for from had has have he her him his i in into is it its me my " +
+    "not of on or she so that the their them then there they this to was we were what when which who " +
+    "will with you your"
+  ).split(" "),
+);
+
+function getTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((term) => term.length > 1 && !stopWords.has(term));
+}
+
+interface Document {
+  text: string;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+function createDocument(text: string): Document {
+  const terms = getTerms(text);
+  const termFrequencies = new Map<string, number>();
+
+  for (const term of terms) {
+    termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+  }
+
+  return { text, termFrequencies, length: terms.length };
+}
+
+// Returns the passages of the story that can be retrieved, in chronological order.
+// Narrations are split into paragraphs, so that only the relevant parts are retrieved.
+// Chapter summaries are placed after the summary of the last scene of the chapter.
+function getPassages(state: State): string[] {
+  const passages: string[] = [];
+  let sceneIndex = -1;
+
+  for (const event of state.events) {
+    if (event.type === "narration") {
+      passages.push(...event.text.split(/\n\s*\n/));
+    } else if (event.type === "location_change") {
+      // The summary of a location change event describes the scene it ends.
+      sceneIndex++;
+
+      if (event.summary) {
+        passages.push(event.summary);
+      }
+
+      for (const chapter of state.chapters) {
+        if (chapter.endSceneIndex === sceneIndex) {
+          passages.push(chapter.summary);
+        }
+      }
+    }
+  }
+
+  return passages.map((passage) => passage.trim()).filter((passage) => passage);
+}
+
+// Documents from the previous retrieval, by text. Most passages are unchanged between
+// retrievals, so this avoids processing the entire story again for every prompt.
+let documentCache = new Map<string, Document>();
+
+function getDocuments(passages: string[]): Document[] {
+  const cache = new Map<string, Document>();
+
+  const documents = passages.map((passage) => {
+    const document = cache.get(passage) ?? documentCache.get(passage) ?? createDocument(passage);
+    cache.set(passage, document);
+    return document;
+  });
+
+  // Only the documents of current passages are kept, which limits the size of the cache.
+  documentCache = cache;
+
+  return documents;
+}
+
+// The query consists of what is currently going on: the current scene,
+// the characters who are present, and the most recent action of the protagonist.
+function getQuery(state: State): string {
+  const sceneStartIndex = state.events.findLastIndex((event) => event.type === "location_change");
+
+  const parts = state.events.slice(sceneStartIndex + 1).flatMap((event) => {
+    if (event.type === "narration") {
+      return [event.text];
+    } else if (event.type === "action") {
+      return [event.action];
+    } else {
+      return [];
+    }
+  });
+
+  for (const character of state.characters) {
+    if (character.locationIndex === state.protagonist.locationIndex) {
+      parts.push(character.name);
+    }
+  }
+
+  // Only the last part of a long scene is relevant for what happens next.
+  return parts.join("\n\n").slice(-3000);
+}
+
+/**
+ * Retrieves passages from earlier in the story that are relevant to the current scene,
+ * using BM25 ranking. Passages that are already part of the context are skipped.
+ * @param state The current state.
+ * @param context The context the passages are going to be added to.
+ * @param tokenBudget The maximum number of tokens of all retrieved passages combined.
+ * @returns The retrieved passages, in chronological order.
+ */
+export function getRelevantPassages(state: State, context: string, tokenBudget: number): string[] {
+  if (tokenBudget <= 0) {
+    return [];
+  }
+
+  const documents = getDocuments(getPassages(state)).filter(
+    (document) => document.length > 0 && !context.includes(document.text),
+  );
+
+  if (documents.length === 0) {
+    return [];
+  }
+
+  const queryTerms = new Set(getTerms(getQuery(state)));
+  const averageLength = documents.reduce((sum, document) => sum + document.length, 0) / documents.length;
+
+  const documentFrequencies = new Map<string, number>();
+  for (const document of documents) {
+    for (const term of document.termFrequencies.keys()) {
+      if (queryTerms.has(term)) {
+        documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+      }
+    }
+  }
+
+  const scores = documents.map((document) => {
+    let score = 0;
+
+    for (const [term, documentFrequency] of documentFrequencies) {
+      const termFrequency = document.termFrequencies.get(term) ?? 0;
+      if (termFrequency > 0) {
+        const idf = Math.log(1 + (documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score +=
+          (idf * termFrequency * (k1 + 1)) / (termFrequency + k1 * (1 - b + (b * document.length) / averageLength));
+      }
+    }
+
+    return score;
+  });
+
+  const rankedIndices = documents
+    .map((_, index) => index)
+    .filter((index) => scores[index] > 0)
+    .sort((index1, index2) => scores[index2] - scores[index1]);
+
+  const selectedIndices: number[] = [];
+  let remainingTokens = tokenBudget;
+
+  for (const index of rankedIndices) {
+    const tokenCount = countTokens(documents[index].text);
+    if (tokenCount <= remainingTokens) {
+      selectedIndices.push(index);
+      remainingTokens -= tokenCount;
+    }
+  }
+
+  return selectedIndices.sort((index1, index2) => index1 - index2).map((index) => documents[index].text);
+}
@@ -0,0 +1,283 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { current, type WritableDraft } from "immer";
+import { pick } from "lodash";
+import * as migrations from "./migrations";
+import * as schemas from "./schemas";
+import { type Campaign, type ExportedState, getState, initialState, type SaveSlot, type State } from "./state";
+
+// The campaign of the active save slot is part of the main state store.
+// Campaigns of all other save slots are stored under separate keys,
+// so they don't have to be serialized whenever the main state changes.
+const storageKeyPrefix = "campaign-";
+
+function getStorageKey(id: string): string {
+  return `${storageKeyPrefix}${id}`;
+}
+
+function readCampaign(id: string): Campaign {
+  const item = localStorage.getItem(getStorageKey(id));
+
+  if (item === null) {
+    throw new Error(`No campaign data found for save slot ${id}`);
+  }
+
+  // Same format as the main state store, so campaigns can be migrated the same way.
+  const { state, version } = JSON.parse(item);
+  return schemas.Campaign.parse(migrations.migrate(state, version, schemas.Campaign));
+}
+
+function writeCampaign(id: string, campaign: Campaign): void {
+  localStorage.setItem(getStorageKey(id), JSON.stringify({ state: campaign, version: migrations.version }));
+}
+
+function removeCampaign(id: string): void {
+  localStorage.removeItem(getStorageKey(id));
+}
+
+// Removes all stored campaigns, including those of save slots
+// that are unknown because the main state could not be restored.
+export function removeAllCampaigns(): void {
+  const keys = Object.keys(localStorage).filter((key) => key.startsWith(storageKeyPrefix));
+
+  for (const key of keys) {
+    localStorage.removeItem(key);
+  }
+}
+
+/**
+ * Returns the raw stored data of the main state and of all stored campaigns,
+ * so that it can be backed up even if it cannot be restored.
+ * @returns JSON object mapping storage keys to their unparsed contents.
+ */
+export function getStorageBackup(): string {
+  const backup: Record<string, string | null> = {};
+
+  for (const key of Object.keys(localStorage)) {
+    if (key === "state" || key.startsWith(storageKeyPrefix)) {
+      backup[key] = localStorage.getItem(key);
+    }
+  }
+
+  return JSON.stringify(backup, null, 2);
+}
+
+function generateId(): string {
+  // crypto.randomUUID() is only available in secure contexts,
+  // and Waidrin is often served over plain HTTP on local networks.
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function getCampaign(state: State): Campaign {
+  return pick(state, Object.keys(schemas.Campaign.shape)) as Campaign;
+}
+
+function describeCampaign(slot: WritableDraft<SaveSlot>, campaign: Campaign): void {
+  slot.worldName = campaign.view === "scenario" || campaign.view === "chat" ? campaign.world.name : "";
+  slot.protagonistName = campaign.view === "scenario" || campaign.view === "chat" ? campaign.protagonist.name : "";
+  slot.turnCount = campaign.events.filter((event) => event.type === "action").length;
+  slot.lastPlayed = Date.now();
+}
+
+/**
+ * Returns the save slot with up-to-date information. The information stored for
+ * the active save slot is only updated when another save slot is loaded.
+ * @param state The current state.
+ * @param slot The save slot.
+ * @returns The save slot information.
+ */
+export function getSaveSlotInfo(state: State, slot: SaveSlot): SaveSlot {
+  if (slot.id !== state.activeSaveSlotId) {
+    return slot;
+  }
+
+  const info = { ...slot };
+  describeCampaign(info, getCampaign(state));
+  return info;
+}
+
+function storeActiveCampaign(state: WritableDraft<State>): void {
+  const campaign = getCampaign(current(state));
+  writeCampaign(state.activeSaveSlotId, campaign);
+
+  for (const slot of state.saveSlots) {
+    if (slot.id === state.activeSaveSlotId) {
+      describeCampaign(slot, campaign);
+    }
+  }
+}
+
+function activateCampaign(state: WritableDraft<State>, id: string, campaign: Campaign): void {
+  Object.assign(state, campaign);
+  state.activeSaveSlotId = id;
+  // The campaign now lives in the main state store.
+  removeCampaign(id);
+}
+
+export async function createSaveSlot(): Promise<void> {
+  await getState().setAsync(async (state) => {
+    const id = generateId();
+
+    storeActiveCampaign(state);
+
+    state.saveSlots.push({
+      ...initialState.saveSlots[0],
+      id,
+      name: `Campaign ${state.saveSlots.length + 1}`,
+      lastPlayed: Date.now(),
+    });
+
+    // Connection settings are shared, so there is no need to go through the connection setup again.
+    activateCampaign(state, id, { ...getCampaign(initialState), view: "genre" });
+  });
+}
+
+export async function loadSaveSlot(id: string): Promise<void> {
+  await getState().setAsync(async (state) => {
+    if (id === state.activeSaveSlotId) {
+      return;
+    }
+
+    // Read before writing anything, so that nothing is lost if the stored campaign is invalid.
+    const campaign = readCampaign(id);
+    storeActiveCampaign(state);
+    activateCampaign(state, id, campaign);
+  });
+}
+
+export async function duplicateSaveSlot(id: string): Promise<void> {
+  await getState().setAsync(async (state) => {
+    const slot = state.saveSlots.find((slot) => slot.id === id);
+
+    if (!slot) {
+      throw new Error(`Save slot ${id} does not exist`);
+    }
+
+    const campaign = id === state.activeSaveSlotId ? getCampaign(current(state)) : readCampaign(id);
+    const newId = generateId();
+    writeCampaign(newId, campaign);
+
+    state.saveSlots.push({
+      ...getSaveSlotInfo(state, slot),
+      id: newId,
+      name: schemas.SaveSlot.shape.name.parse(`${slot.name} (copy)`.slice(0, 100)),
+    });
+  });
+}
+
+export async function renameSaveSlot(id: string, name: string): Promise<void> {
+  await getState().setAsync(async (state) => {
+    for (const slot of state.saveSlots) {
+      if (slot.id === id) {
+        slot.name = schemas.SaveSlot.shape.name.parse(name);
+      }
+    }
+  });
+}
+
+export async function deleteSaveSlot(id: string): Promise<void> {
+  await getState().setAsync(async (state) => {
+    if (id === state.activeSaveSlotId) {
+      throw new Error("The active save slot cannot be deleted");
+    }
+
+    state.saveSlots = state.saveSlots.filter((slot) => slot.id !== id);
+    removeCampaign(id);
+  });
+}
+
+/**
+ * Replaces the main state with the initial state, keeping all stored campaigns.
+ * Used if the main state cannot be restored. Because the list of save slots is part
+ * of the main state, new save slots are created for all stored campaigns that are valid.
+ * Invalid campaigns are left in storage untouched.
+ */
+export function resetMainState(): void {
+  const saveSlots: SaveSlot[] = [];
+
+  for (const key of Object.keys(localStorage)) {
+    if (!key.startsWith(storageKeyPrefix)) {
+      continue;
+    }
+
+    const id = key.slice(storageKeyPrefix.length);
+    let campaign: Campaign;
+
+    try {
+      campaign = readCampaign(id);
+    } catch {
+      continue;
+    }
+
+    const slot = { ...initialState.saveSlots[0], id, name: `Recovered campaign ${saveSlots.length + 1}` };
+    describeCampaign(slot, campaign);
+    saveSlots.push(slot);
+  }
+
+  // The ID of the initial save slot may already be used by a stored campaign.
+  const activeSlot = saveSlots.some((slot) => slot.id === initialState.activeSaveSlotId)
+    ? { ...initialState.saveSlots[0], id: generateId() }
+    : initialState.saveSlots[0];
+
+  getState().set({
+    ...initialState,
+    saveSlots: [activeSlot, ...saveSlots],
+    activeSaveSlotId: activeSlot.id,
+  });
+}
+
+export function exportState(state: State): string {
+  const exportedState = pick(state, Object.keys(schemas.ExportedState.shape)) as ExportedState;
+  return JSON.stringify({ state: exportedState, version: migrations.version }, null, 2);
+}
+
+/**
+ * Imports the campaign from an exported state file into a new save slot,
+ * and loads that save slot. Connection settings are not imported,
+ * because exported files don't contain the API key.
+ * @param json The contents of the exported state file.
+ */
+export async function importCampaign(json: string): Promise<void> {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`File is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof data !== "object" || data === null || !("state" in data) || !("version" in data)) {
+    throw new Error("File is not a Waidrin state file");
+  }
+
+  if (typeof data.version !== "number") {
+    throw new Error("File has an invalid state version");
+  }
+
+  // Files exported by older versions of Waidrin are upgraded before validation.
+  // Validation errors are reported with the path of each invalid field.
+  const exportedState = migrations.migrate(data.state, data.version, schemas.ExportedState);
+  const campaign = getCampaign({ ...initialState, ...exportedState });
+  const exportedSlot = exportedState.saveSlots.find((slot) => slot.id === exportedState.activeSaveSlotId);
+
+  await getState().setAsync(async (state) => {
+    const id = generateId();
+
+    storeActiveCampaign(state);
+
+    state.saveSlots.push({
+      ...initialState.saveSlots[0],
+      id,
+      name: exportedSlot?.name ?? `Campaign ${state.saveSlots.length + 1}`,
+    });
+
+    activateCampaign(state, id, campaign);
+
+    for (const slot of state.saveSlots) {
+      if (slot.id === id) {
+        describeCampaign(slot, campaign);
+      }
+    }
+  });
+}
@@ -13,8 +13,21 @@ export const Action = Text.max(200);
 
 const Index = z.int();
 
+// Identifier for things defined by genre packs.
+const Id = z.string().regex(/^[a-z0-9_-]+$/);
+
+// Path to an image file, either relative to the genre pack directory, or an absolute URL.
+const AssetPath = z.string().trim().nonempty();
+
 const RequestParams = z.record(z.string(), z.unknown());
 
+// "auto" selects a bundled tokenizer based on the model name, or the backend's own tokenizer,
+// and falls back to a heuristic if neither is available.
+export const TokenizerName = z.enum(["auto", "heuristic", "backend", "cl100k_base", "o200k_base", "llama3"]);
+
+// Prompt formats for text completion backends, which don't apply the model's chat template themselves.
+export const ChatTemplateName = z.enum(["chatml", "llama3", "mistral", "gemma", "alpaca"]);
+
 export const View = z.enum(["welcome", "connection", "genre", "character", "scenario", "chat"]);
 
 export const World = z.object({
@@ -22,9 +35,38 @@ export const World = z.object({
   description: Description,
 });
 
+// Background information about the world, which is included in prompts
+// only when one of its keywords is mentioned in the story.
+export const LorebookEntry = z.object({
+  title: Name,
+  keywords: Name.array().min(1).max(10),
+  content: Description,
+});
+
 export const Gender = z.enum(["male", "female"]);
 
-export const Race = z.enum(["human", "elf", "dwarf"]);
+// Genres, races, and location types are defined by genre packs, which are loaded at runtime.
+// Generation is constrained to the values defined by the active genre pack.
+export const Genre = Id;
+
+export const Race = Id;
+
+export const Item = z.object({
+  name: Name,
+  description: Text.max(300),
+});
+
+// The attitude of a character towards the protagonist.
+export const Relationship = z.object({
+  // From -100 (hostile) to 100 (devoted).
+  score: z.int().min(-100).max(100),
+  // Notable things that happened between the character and the protagonist, oldest first.
+  notes: Text.max(300).array(),
+});
+
+// Characters who are not active can no longer take part in the story,
+// unless the narration changes their status again (e.g. by freeing them).
+export const CharacterStatus = z.enum(["active", "dead", "imprisoned", "departed"]);
 
 export const Character = z.object({
   name: Name,
@@ -32,9 +74,14 @@ export const Character = z.object({
   race: Race,
   biography: Description,
   locationIndex: Index,
+  items: Item.array(),
+  relationship: Relationship,
+  status: CharacterStatus,
+  // Pinned characters are always described in prompts, even if they haven't appeared in a long time.
+  pinned: z.boolean(),
 });
 
-export const LocationType = z.enum(["tavern", "market", "road"]);
+export const LocationType = Id;
 
 export const Location = z.object({
   name: Name,
@@ -42,6 +89,49 @@ export const Location = z.object({
   description: Description,
 });
 
+export const GenrePack = z.object({
+  // The name of the genre pack directory.
+  id: Genre,
+  title: Name,
+  description: Name,
+  // Inserted into prompts, e.g. "a [fantasy] adventure".
+  adjective: Name,
+  image: AssetPath,
+  // Describes the kind of world to generate.
+  worldPrompt: Description,
+  // Additional instructions for the game master, included in every prompt.
+  rules: Description.optional(),
+  races: z
+    .object({
+      id: Race,
+      name: Name,
+      images: z
+        .object({
+          male: AssetPath,
+          female: AssetPath,
+        })
+        .partial()
+        .optional(),
+    })
+    .array()
+    .nonempty(),
+  locationTypes: z
+    .object({
+      id: LocationType,
+      name: Name,
+      image: AssetPath.optional(),
+    })
+    .array()
+    .nonempty(),
+  tropes: z
+    .object({
+      id: Id,
+      description: Description,
+      prompt: Description,
+    })
+    .array(),
+});
+
 export const SexualContentLevel = z.enum(["regular", "explicit", "actively_explicit"]);
 
 export const ViolentContentLevel = z.enum(["regular", "graphic", "pervasive"]);
@@ -77,12 +167,99 @@ export const Event = z.discriminatedUnion("type", [
   LocationChangeEvent,
 ]);
 
+export const QuestStatus = z.enum(["active", "completed", "failed"]);
+
+export const Quest = z.object({
+  title: Name,
+  description: Text.max(500),
+  status: QuestStatus,
+});
+
+// Summarizes several consecutive scenes. Chapters are appended as the story progresses,
+// each starting where the previous one ended (the first one starts with the first scene).
+export const Chapter = z.object({
+  // Index of the first scene after the chapter, counting the scenes started by location change events.
+  endSceneIndex: Index,
+  summary: Text.max(5000),
+  // Summary of the entire story up to the end of the chapter.
+  synopsis: Text.max(5000),
+});
+
+// Records the contents of an array before a turn, relative to its contents
+// after that turn. Only elements that were changed during the turn are stored,
+// which keeps snapshots small even for campaigns with many characters.
+function ArrayPatch<Item extends z.ZodType>(item: Item) {
+  return z.object({
+    length: Index,
+    items: z
+      .object({
+        index: Index,
+        value: item,
+      })
+      .array(),
+  });
+}
+
+export const Snapshot = z.object({
+  eventCount: Index,
+  locations: ArrayPatch(Location),
+  characters: ArrayPatch(Character),
+  protagonist: Character,
+  actions: Action.array(),
+  quests: Quest.array(),
+  chapterCount: Index,
+});
+
+export const Timeline = z.object({
+  locations: Location.array(),
+  characters: Character.array(),
+  protagonist: Character,
+  events: Event.array(),
+  actions: Action.array(),
+  quests: Quest.array(),
+  chapters: Chapter.array(),
+  snapshots: Snapshot.array(),
+});
+
+export const Branch = z.object({
+  name: Name,
+  // The branch this branch was forked from, and the index of the action event
+  // at which the fork happened. Both are undefined for the original branch.
+  parentIndex: Index.optional(),
+  forkEventIndex: Index.optional(),
+  // Undefined for the active branch, whose timeline
+  // is stored in the corresponding fields of the state.
+  timeline: Timeline.optional(),
+});
+
+export const SaveSlot = z.object({
+  id: z.string(),
+  name: Name,
+  worldName: z.string(),
+  protagonistName: z.string(),
+  turnCount: z.int(),
+  // Timestamp in milliseconds.
+  lastPlayed: z.int(),
+});
+
 export const State = z.object({
   apiUrl: z.url(),
   apiKey: z.string().trim(),
   model: z.string().trim(),
   contextLength: z.int(),
   inputLength: z.int(),
+  tokenizer: TokenizerName,
+  // Share of the context budget used for passages retrieved from parts of the story
+  // that no longer fit into the context.
+  retrievalShare: z.number().min(0).max(0.5),
+  // How many times the backend is prompted for an object before giving up on invalid responses.
+  maxObjectAttempts: z.int().min(1).max(10),
+  ollamaUrl: z.url(),
+  ollamaModel: z.string().trim(),
+  // Duration in Ollama's format (e.g. "5m" or "1h"). Empty to use the server default.
+  ollamaKeepAlive: z.string().trim(),
+  koboldUrl: z.url(),
+  chatTemplate: ChatTemplateName,
   generationParams: RequestParams,
   narrationParams: RequestParams,
   updateInterval: z.int(),
@@ -90,16 +267,54 @@ export const State = z.object({
   logParams: z.boolean(),
   logResponses: z.boolean(),
   view: View,
+  genre: Genre,
   world: World,
+  lorebook: LorebookEntry.array(),
   locations: Location.array(),
   characters: Character.array(),
   protagonist: Character,
-  hiddenDestiny: z.boolean(),
-  betrayal: z.boolean(),
-  oppositeSexMagnet: z.boolean(),
-  sameSexMagnet: z.boolean(),
+  tropes: Id.array(),
   sexualContentLevel: SexualContentLevel,
   violentContentLevel: ViolentContentLevel,
   events: Event.array(),
   actions: Action.array(),
+  quests: Quest.array(),
+  chapters: Chapter.array(),
+  snapshots: Snapshot.array(),
+  branches: Branch.array(),
+  activeBranchIndex: Index,
+  saveSlots: SaveSlot.array(),
+  activeSaveSlotId: z.string(),
+});
+
+// The part of the state that belongs to an individual campaign.
+// Everything else is shared between all save slots.
+export const Campaign = State.omit({
+  apiUrl: true,
+  apiKey: true,
+  model: true,
+  contextLength: true,
+  inputLength: true,
+  tokenizer: true,
+  retrievalShare: true,
+  maxObjectAttempts: true,
+  ollamaUrl: true,
+  ollamaModel: true,
+  ollamaKeepAlive: true,
+  koboldUrl: true,
+  chatTemplate: true,
+  generationParams: true,
+  narrationParams: true,
+  updateInterval: true,
+  logPrompts: true,
+  logParams: true,
+  logResponses: true,
+  saveSlots: true,
+  activeSaveSlotId: true,
+});
+
+// The state as written to exported campaign files. The API key is left out
+// so that files can be shared without leaking credentials.
+export const ExportedState = State.omit({
+  apiKey: true,
 });
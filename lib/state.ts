@@ -8,15 +8,24 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
 import type { Backend } from "./backend";
+import * as migrations from "./migrations";
 import * as schemas from "./schemas";
 
+export type TokenizerName = z.infer<typeof schemas.TokenizerName>;
+export type ChatTemplateName = z.infer<typeof schemas.ChatTemplateName>;
 export type View = z.infer<typeof schemas.View>;
 export type World = z.infer<typeof schemas.World>;
+export type LorebookEntry = z.infer<typeof schemas.LorebookEntry>;
 export type Gender = z.infer<typeof schemas.Gender>;
+export type Genre = z.infer<typeof schemas.Genre>;
 export type Race = z.infer<typeof schemas.Race>;
+export type Item = z.infer<typeof schemas.Item>;
+export type Relationship = z.infer<typeof schemas.Relationship>;
+export type CharacterStatus = z.infer<typeof schemas.CharacterStatus>;
 export type Character = z.infer<typeof schemas.Character>;
 export type LocationType = z.infer<typeof schemas.LocationType>;
 export type Location = z.infer<typeof schemas.Location>;
+export type GenrePack = z.infer<typeof schemas.GenrePack>;
 export type SexualContentLevel = z.infer<typeof schemas.SexualContentLevel>;
 export type ViolentContentLevel = z.infer<typeof schemas.ViolentContentLevel>;
 export type ActionEvent = z.infer<typeof schemas.ActionEvent>;
@@ -24,7 +33,16 @@ export type NarrationEvent = z.infer<typeof schemas.NarrationEvent>;
 export type CharacterIntroductionEvent = z.infer<typeof schemas.CharacterIntroductionEvent>;
 export type LocationChangeEvent = z.infer<typeof schemas.LocationChangeEvent>;
 export type Event = z.infer<typeof schemas.Event>;
+export type QuestStatus = z.infer<typeof schemas.QuestStatus>;
+export type Quest = z.infer<typeof schemas.Quest>;
+export type Chapter = z.infer<typeof schemas.Chapter>;
+export type Snapshot = z.infer<typeof schemas.Snapshot>;
+export type Timeline = z.infer<typeof schemas.Timeline>;
+export type Branch = z.infer<typeof schemas.Branch>;
+export type SaveSlot = z.infer<typeof schemas.SaveSlot>;
 export type State = z.infer<typeof schemas.State>;
+export type Campaign = z.infer<typeof schemas.Campaign>;
+export type ExportedState = z.infer<typeof schemas.ExportedState>;
 
 export const initialState: State = schemas.State.parse({
   apiUrl: "http://localhost:8080/v1/",
@@ -32,6 +50,14 @@ export const initialState: State = schemas.State.parse({
   model: "",
   contextLength: 16384,
   inputLength: 16384,
+  tokenizer: "auto",
+  retrievalShare: 0.1,
+  maxObjectAttempts: 3,
+  ollamaUrl: "http://localhost:11434/",
+  ollamaModel: "",
+  ollamaKeepAlive: "",
+  koboldUrl: "http://localhost:5001/",
+  chatTemplate: "chatml",
   generationParams: {
     temperature: 0.5,
   },
@@ -45,10 +71,12 @@ export const initialState: State = schemas.State.parse({
   logParams: false,
   logResponses: false,
   view: "welcome",
+  genre: "fantasy",
   world: {
     name: "[name]",
     description: "[description]",
   },
+  lorebook: [],
   locations: [],
   characters: [],
   protagonist: {
@@ -57,15 +85,39 @@ export const initialState: State = schemas.State.parse({
     race: "human",
     biography: "[biography]",
     locationIndex: 0,
+    items: [],
+    relationship: {
+      score: 0,
+      notes: [],
+    },
+    status: "active",
+    pinned: false,
   },
-  hiddenDestiny: false,
-  betrayal: false,
-  oppositeSexMagnet: false,
-  sameSexMagnet: false,
+  tropes: [],
   sexualContentLevel: "regular",
   violentContentLevel: "regular",
   events: [],
   actions: [],
+  quests: [],
+  chapters: [],
+  snapshots: [],
+  branches: [
+    {
+      name: "Main",
+    },
+  ],
+  activeBranchIndex: 0,
+  saveSlots: [
+    {
+      id: "default",
+      name: "Campaign 1",
+      worldName: "",
+      protagonistName: "",
+      turnCount: 0,
+      lastPlayed: 0,
+    },
+  ],
+  activeSaveSlotId: "default",
 });
 
 export type Plugin = Partial<{
@@ -91,6 +143,11 @@ export interface Plugins {
   activeBackend: string;
 }
 
+export interface GenrePacks {
+  // Loaded from the genre packs directory on startup.
+  genrePacks: Record<string, GenrePack>;
+}
+
 export interface Actions {
   set: (
     nextStateOrUpdater: StoredState | Partial<StoredState> | ((state: WritableDraft<StoredState>) => void),
@@ -99,10 +156,30 @@ export interface Actions {
   setAsync: (updater: (state: WritableDraft<StoredState>) => Promise<void>) => Promise<void>;
 }
 
-export type StoredState = State & Plugins & Actions;
+export type StoredState = State & Plugins & GenrePacks & Actions;
 
 const setAsyncMutex = new Mutex();
 
+let hydrationError: Error | undefined;
+const hydrationErrorListeners = new Set<(error: Error) => void>();
+
+/**
+ * Registers a listener that is called if the persisted state cannot be restored,
+ * e.g. because it is corrupted or could not be migrated. In that case, the state store
+ * is never marked as hydrated, and the persisted state remains untouched until
+ * the state store is written to.
+ * @param listener Function called with the error that occurred.
+ * @returns Function that unregisters the listener.
+ */
+export function onHydrationError(listener: (error: Error) => void): () => void {
+  if (hydrationError) {
+    listener(hydrationError);
+  }
+
+  hydrationErrorListeners.add(listener);
+  return () => hydrationErrorListeners.delete(listener);
+}
+
 export const useStateStore = create<StoredState>()(
   persist(
     immer((set, get) => ({
@@ -110,6 +187,7 @@ export const useStateStore = create<StoredState>()(
       plugins: [],
       backends: {},
       activeBackend: "default",
+      genrePacks: {},
       set: set,
       setAsync: async (updater) => {
         await setAsyncMutex.runExclusive(async () => {
@@ -136,6 +214,24 @@ export const useStateStore = create<StoredState>()(
     })),
     {
       name: "state",
+      version: migrations.version,
+      migrate: (persistedState, version) => migrations.migrate(persistedState, version, schemas.State) as StoredState,
+      // Persist only calls migrate if the stored version differs from the current one,
+      // so states stored by the current version (which may still have been corrupted or edited)
+      // are validated here. Errors thrown here are reported to onRehydrateStorage.
+      merge: (persistedState, currentState) =>
+        persistedState === undefined
+          ? currentState
+          : { ...currentState, ...(migrations.validate(persistedState, schemas.State) as Partial<StoredState>) },
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) {
+          hydrationError = error instanceof Error ? error : new Error(String(error));
+
+          for (const listener of hydrationErrorListeners) {
+            listener(hydrationError);
+          }
+        }
+      },
       partialize: (state) => {
         // Don't persist functions and class instances.
         const persistedState: Partial<StoredState> = { ...state };
@@ -147,6 +243,7 @@ export const useStateStore = create<StoredState>()(
         });
 
         delete persistedState.backends;
+        delete persistedState.genrePacks;
         delete persistedState.set;
         delete persistedState.setAsync;
 
@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import type { Prompt } from "./prompts";
+import type { ChatTemplateName } from "./state";
+
+export interface ChatTemplate {
+  title: string;
+  // Returns the text to complete, ending with the start of the assistant's response.
+  render(prompt: Prompt): string;
+  // Sequences that mark the end of the assistant's response.
+  stopSequences: string[];
+}
+
+// The beginning-of-sequence token is omitted from all templates,
+// because text completion servers add it automatically.
+export const chatTemplates: Record<ChatTemplateName, ChatTemplate> = {
+  chatml: {
+    title: "ChatML (Qwen, Hermes, and many others)",
+    render: (prompt) =>
+      `<|im_start|>system\n${prompt.system}<|im_end|>\n` +
+      `<|im_start|>user\n${prompt.user}<|im_end|>\n` +
+      "<|im_start|>assistant\n",
+    stopSequences: ["<|im_end|>", "<|im_start|>"],
+  },
+  llama3: {
+    title: "Llama 3",
+    render: (prompt) =>
+      `<|start_header_id|>system<|end_header_id|>\n\n${prompt.system}<|eot_id|>` +
+      `<|start_header_id|>user<|end_header_id|>\n\n${prompt.user}<|eot_id|>` +
+      "<|start_header_id|>assistant<|end_header_id|>\n\n",
+    stopSequences: ["<|eot_id|>", "<|start_header_id|>"],
+  },
+  mistral: {
+    title: "Mistral",
+    render: (prompt) => `[SYSTEM_PROMPT]${prompt.system}[/SYSTEM_PROMPT][INST]${prompt.user}[/INST]`,
+    stopSequences: ["</s>", "[INST]"],
+  },
+  gemma: {
+    title: "Gemma",
+    // Gemma has no system role, so the system prompt is prepended to the user message.
+    render: (prompt) => `<start_of_turn>user\n${prompt.system}\n\n${prompt.user}<end_of_turn>\n<start_of_turn>model\n`,
+    stopSequences: ["<end_of_turn>", "<start_of_turn>"],
+  },
+  alpaca: {
+    title: "Alpaca",
+    render: (prompt) => `${prompt.system}\n\n### Instruction:\n${prompt.user}\n\n### Response:\n`,
+    stopSequences: ["### Instruction:"],
+  },
+};
@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import type { Backend } from "./backend";
+import type { TokenizerName } from "./state";
+
+export interface Tokenizer {
+  countTokens(text: string): number;
+}
+
+// Assumes 3 characters per token, which is a conservative estimate for English text.
+export const heuristicTokenizer: Tokenizer = {
+  countTokens: (text) => Math.ceil(text.length / 3),
+};
+
+/**
+ * Creates a tokenizer that extrapolates from the number of tokens a backend reported for a sample text.
+ * This allows using backends that can only count tokens asynchronously (e.g. through an HTTP endpoint)
+ * for the synchronous token counting required for building prompts.
+ * @param sample The text that was tokenized.
+ * @param tokenCount The number of tokens in the sample.
+ * @returns The tokenizer, or undefined if the sample is too short to extrapolate from.
+ */
+export function createCalibratedTokenizer(sample: string, tokenCount: number): Tokenizer | undefined {
+  if (sample.length < 100 || tokenCount <= 0) {
+    return undefined;
+  }
+
+  const charactersPerToken = sample.length / tokenCount;
+
+  return {
+    countTokens: (text) => Math.ceil(text.length / charactersPerToken),
+  };
+}
+
+type BundledTokenizerName = Exclude<TokenizerName, "auto" | "heuristic" | "backend">;
+
+// Bundled tokenizers are loaded on demand, because their vocabularies are large.
+const bundledTokenizerLoaders: Record<BundledTokenizerName, () => Promise<Tokenizer>> = {
+  cl100k_base: async () => {
+    const { Tiktoken } = await import("js-tiktoken/lite");
+    const ranks = (await import("js-tiktoken/ranks/cl100k_base")).default;
+    const encoding = new Tiktoken(ranks);
+    return { countTokens: (text) => encoding.encode(text, "all").length };
+  },
+  o200k_base: async () => {
+    const { Tiktoken } = await import("js-tiktoken/lite");
+    const ranks = (await import("js-tiktoken/ranks/o200k_base")).default;
+    const encoding = new Tiktoken(ranks);
+    return { countTokens: (text) => encoding.encode(text, "all").length };
+  },
+  llama3: async () => {
+    const tokenizer = (await import("llama3-tokenizer-js")).default;
+    return { countTokens: (text) => tokenizer.encode(text, { bos: false, eos: false }).length };
+  },
+};
+
+const bundledTokenizers = new Map<BundledTokenizerName, Promise<Tokenizer>>();
+
+function getBundledTokenizer(name: BundledTokenizerName): Promise<Tokenizer> {
+  let tokenizer = bundledTokenizers.get(name);
+
+  if (!tokenizer) {
+    tokenizer = bundledTokenizerLoaders[name]();
+    // Allow retrying if loading failed.
+    tokenizer.catch(() => bundledTokenizers.delete(name));
+    bundledTokenizers.set(name, tokenizer);
+  }
+
+  return tokenizer;
+}
+
+// Guesses the tokenizer family from the model name. Only families with a bundled tokenizer are recognized.
+function getBundledTokenizerNameForModel(model: string): BundledTokenizerName | undefined {
+  const name = model.toLowerCase();
+
+  if (/gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|\bo[134]\b|\bo[134]-/.test(name)) {
+    return "o200k_base";
+  } else if (/gpt-4|gpt-3\.5/.test(name)) {
+    return "cl100k_base";
+  } else if (/llama-?3/.test(name)) {
+    return "llama3";
+  } else {
+    return undefined;
+  }
+}
+
+let activeTokenizer = heuristicTokenizer;
+
+/**
+ * Loads the tokenizer selected in the settings and makes it the one used by countTokens.
+ * Falls back to the heuristic if the selected tokenizer is unavailable.
+ * @param name The tokenizer setting.
+ * @param backend The backend, whose model name is used to select a tokenizer automatically,
+ *                and which may provide its own tokenizer.
+ */
+export async function loadTokenizer(name: TokenizerName, backend: Backend): Promise<void> {
+  let tokenizer: Tokenizer | undefined;
+
+  if (name === "auto") {
+    const model = backend.getModelName ? await backend.getModelName().catch(() => undefined) : undefined;
+    const bundledName = model && getBundledTokenizerNameForModel(model);
+
+    if (bundledName) {
+      tokenizer = await getBundledTokenizer(bundledName).catch(() => undefined);
+    }
+
+    if (!tokenizer && backend.getTokenizer) {
+      tokenizer = await backend.getTokenizer().catch(() => undefined);
+    }
+  } else if (name === "backend") {
+    tokenizer = backend.getTokenizer ? await backend.getTokenizer().catch(() => undefined) : undefined;
+  } else if (name !== "heuristic") {
+    tokenizer = await getBundledTokenizer(name).catch(() => undefined);
+  }
+
+  activeTokenizer = tokenizer ?? heuristicTokenizer;
+}
+
+export function countTokens(text: string): number {
+  return activeTokenizer.countTokens(text);
+}
@@ -0,0 +1,303 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { strToU8, zipSync } from "fflate";
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import Markdown from "react-markdown";
+import { getRaceName } from "./genres";
+import { getState, type State } from "./state";
+
+export type TranscriptFormat = "markdown" | "html" | "epub";
+
+type Passage =
+  | {
+      type: "action";
+      text: string;
+    }
+  | {
+      type: "narration";
+      text: string;
+    };
+
+interface Chapter {
+  title: string;
+  synopsis?: string;
+  passages: Passage[];
+}
+
+interface CastMember {
+  name: string;
+  description: string;
+  biography: string;
+}
+
+interface Transcript {
+  title: string;
+  subtitle: string;
+  cast: CastMember[];
+  chapters: Chapter[];
+}
+
+function getTranscript(state: State): Transcript {
+  const chapters: Chapter[] = [];
+
+  for (const event of state.events) {
+    if (event.type === "location_change") {
+      if (chapters.length > 0) {
+        // The summary of each scene is stored in the location change event that ends it.
+        chapters[chapters.length - 1].synopsis = event.summary;
+      }
+
+      chapters.push({
+        title: state.locations[event.locationIndex].name,
+        passages: [],
+      });
+    } else if (event.type === "action" || event.type === "narration") {
+      if (chapters.length === 0) {
+        chapters.push({
+          title: "Prologue",
+          passages: [],
+        });
+      }
+
+      chapters[chapters.length - 1].passages.push({
+        type: event.type,
+        text: event.type === "action" ? event.action : event.text,
+      });
+    }
+  }
+
+  // Characters who were generated but never appeared in the story are left out.
+  const introducedCharacters = state.characters.filter((_, index) =>
+    state.events.some((event) => event.type === "character_introduction" && event.characterIndex === index),
+  );
+
+  // The genre pack may be missing if it has been uninstalled since the campaign was started.
+  const genrePack = getState().genrePacks[state.genre];
+
+  return {
+    title: state.world.name,
+    subtitle: `The adventure of ${state.protagonist.name}`,
+    cast: [state.protagonist, ...introducedCharacters].map((character) => ({
+      name: character.name,
+      description: `${getRaceName(genrePack, character.race)} ${character.gender}`,
+      biography: character.biography,
+    })),
+    chapters,
+  };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#x27;");
+}
+
+// React renders void elements as <br/> etc., so the output is valid XHTML as well.
+// Raw HTML in the Markdown source is escaped rather than rendered.
+function renderMarkdown(markdown: string): string {
+  return renderToStaticMarkup(createElement(Markdown, null, markdown));
+}
+
+function renderChapterBody(chapter: Chapter): string {
+  const lines = [`<h2>${escapeXml(chapter.title)}</h2>`];
+
+  if (chapter.synopsis) {
+    lines.push(`<div class="synopsis">${renderMarkdown(chapter.synopsis)}</div>`);
+  }
+
+  for (const passage of chapter.passages) {
+    if (passage.type === "action") {
+      lines.push(`<p class="action">${escapeXml(passage.text)}</p>`);
+    } else {
+      lines.push(`<div class="narration">${renderMarkdown(passage.text)}</div>`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function renderCastBody(cast: CastMember[]): string {
+  const lines = ["<h2>Cast</h2>", "<dl>"];
+
+  for (const character of cast) {
+    lines.push(`<dt>${escapeXml(character.name)} <span>(${escapeXml(character.description)})</span></dt>`);
+    lines.push(`<dd>${escapeXml(character.biography)}</dd>`);
+  }
+
+  lines.push("</dl>");
+  return lines.join("\n");
+}
+
+const stylesheet = `body { font-family: Georgia, serif; line-height: 1.6; }
+h1, h2 { text-align: center; }
+.subtitle { text-align: center; font-style: italic; }
+.synopsis { font-style: italic; margin: 1em 2em; color: #555; }
+.action { font-style: italic; margin-left: 2em; }
+.action::before { content: "\\203A  "; }
+dt { font-weight: bold; margin-top: 1em; }
+dt span { font-weight: normal; }`;
+
+function getMarkdown(transcript: Transcript): string {
+  const lines = [`# ${transcript.title}`, "", `*${transcript.subtitle}*`, "", "## Cast", ""];
+
+  for (const character of transcript.cast) {
+    lines.push(`**${character.name}** (${character.description})`, "", character.biography, "");
+  }
+
+  for (const chapter of transcript.chapters) {
+    lines.push(`## ${chapter.title}`, "");
+
+    if (chapter.synopsis) {
+      lines.push(...chapter.synopsis.split("\n").map((line) => `> ${line}`), "");
+    }
+
+    for (const passage of chapter.passages) {
+      lines.push(passage.type === "action" ? `> *${passage.text}*` : passage.text, "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function getHtml(transcript: Transcript): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(transcript.title)}</title>
+<style>
+body { max-width: 40em; margin: 2em auto; padding: 0 1em; }
+${stylesheet}
+</style>
+</head>
+<body>
+<h1>${escapeXml(transcript.title)}</h1>
+<p class="subtitle">${escapeXml(transcript.subtitle)}</p>
+${renderCastBody(transcript.cast)}
+${transcript.chapters.map(renderChapterBody).join("\n")}
+</body>
+</html>
+`;
+}
+
+function getXhtmlDocument(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function getEpub(transcript: Transcript): Uint8Array {
+  const identifier = `urn:waidrin:${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  // EPUB requires the modification date without milliseconds.
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+
+  const documents = [
+    {
+      id: "title",
+      title: transcript.title,
+      body: `<h1>${escapeXml(transcript.title)}</h1>\n<p class="subtitle">${escapeXml(transcript.subtitle)}</p>`,
+    },
+    {
+      id: "cast",
+      title: "Cast",
+      body: renderCastBody(transcript.cast),
+    },
+    ...transcript.chapters.map((chapter, index) => ({
+      id: `chapter-${index + 1}`,
+      title: chapter.title,
+      body: renderChapterBody(chapter),
+    })),
+  ];
+
+  const navigation = getXhtmlDocument(
+    transcript.title,
+    `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${documents.map((document) => `<li><a href="${document.id}.xhtml">${escapeXml(document.title)}</a></li>`).join("\n")}
+</ol>
+</nav>`,
+  );
+
+  const packageDocument = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="identifier" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="identifier">${escapeXml(identifier)}</dc:identifier>
+<dc:title>${escapeXml(transcript.title)}</dc:title>
+<dc:language>en</dc:language>
+<dc:creator>Waidrin</dc:creator>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${documents.map((document) => `<item id="${document.id}" href="${document.id}.xhtml" media-type="application/xhtml+xml"/>`).join("\n")}
+</manifest>
+<spine>
+${documents.map((document) => `<itemref idref="${document.id}"/>`).join("\n")}
+</spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+  const files: Record<string, Uint8Array> = {
+    "META-INF/container.xml": strToU8(container),
+    "OEBPS/content.opf": strToU8(packageDocument),
+    "OEBPS/nav.xhtml": strToU8(navigation),
+    "OEBPS/style.css": strToU8(stylesheet),
+  };
+
+  for (const document of documents) {
+    files[`OEBPS/${document.id}.xhtml`] = strToU8(getXhtmlDocument(document.title, document.body));
+  }
+
+  // The mimetype file must be the first entry in the archive, and must not be compressed.
+  return zipSync({
+    mimetype: [strToU8("application/epub+zip"), { level: 0 }],
+    ...files,
+  });
+}
+
+/**
+ * Renders the current campaign as a readable story.
+ * @param state The current state.
+ * @param format The output format.
+ * @returns The file content, its MIME type, and the file name extension.
+ */
+export function getTranscriptFile(
+  state: State,
+  format: TranscriptFormat,
+): { content: string | Uint8Array; type: string; extension: string } {
+  const transcript = getTranscript(state);
+
+  if (format === "markdown") {
+    return { content: getMarkdown(transcript), type: "text/markdown", extension: "md" };
+  } else if (format === "html") {
+    return { content: getHtml(transcript), type: "text/html", extension: "html" };
+  } else {
+    return { content: getEpub(transcript), type: "application/epub+zip", extension: "epub" };
+  }
+}
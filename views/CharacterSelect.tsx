@@ -6,11 +6,13 @@ import { GiFemale, GiMale } from "react-icons/gi";
 import { useShallow } from "zustand/shallow";
 import ImageOption from "@/components/ImageOption";
 import WizardStep from "@/components/WizardStep";
+import { getCharacterImage } from "@/lib/genres";
 import { type Gender, type Race, useStateStore } from "@/lib/state";
 
 export default function CharacterSelect({ onNext, onBack }: { onNext?: () => void; onBack?: () => void }) {
-  const { gender, race, setState } = useStateStore(
+  const { genrePack, gender, race, setState } = useStateStore(
     useShallow((state) => ({
+      genrePack: state.genrePacks[state.genre],
       gender: state.protagonist.gender,
       race: state.protagonist.race,
       setState: state.set,
@@ -38,19 +40,27 @@ export default function CharacterSelect({ onNext, onBack }: { onNext?: () => voi
         </SegmentedControl.Item>
       </SegmentedControl.Root>
 
-      <RadioCards.Root
-        value={race}
-        onValueChange={(value: Race) =>
-          setState((state) => {
-            state.protagonist.race = value;
-          })
-        }
-        columns="3"
-      >
-        <ImageOption title="Human" image={`${gender}-human`} value="human" />
-        <ImageOption title="Elf" image={`${gender}-elf`} value="elf" />
-        <ImageOption title="Dwarf" image={`${gender}-dwarf`} value="dwarf" />
-      </RadioCards.Root>
+      {/* There is nothing to choose if the genre has only one race. */}
+      {genrePack.races.length > 1 && (
+        <RadioCards.Root
+          value={race}
+          onValueChange={(value: Race) =>
+            setState((state) => {
+              state.protagonist.race = value;
+            })
+          }
+          columns="3"
+        >
+          {genrePack.races.map((race) => (
+            <ImageOption
+              key={race.id}
+              title={race.name}
+              image={getCharacterImage(genrePack, { gender, race: race.id })}
+              value={race.id}
+            />
+          ))}
+        </RadioCards.Root>
+      )}
     </WizardStep>
   );
 }
@@ -1,26 +1,35 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
 
-import { Flex, ScrollArea, Text } from "@radix-ui/themes";
+import { Box, Flex, ScrollArea, Text } from "@radix-ui/themes";
 import { useEffect, useRef, useState } from "react";
 import { useShallow } from "zustand/shallow";
 import ActionChoice from "@/components/ActionChoice";
+import ChatSidebar from "@/components/ChatSidebar";
 import ErrorBar from "@/components/ErrorBar";
 import EventView from "@/components/EventView";
+import NarrationControls from "@/components/NarrationControls";
 import ProcessingBar from "@/components/ProcessingBar";
-import { abort, isAbortError, next } from "@/lib/engine";
+import SidebarDrawer from "@/components/SidebarDrawer";
+import { abort, continueNarration, isAbortError, next, type ProgressCallback, regenerate } from "@/lib/engine";
 import { useStateStore } from "@/lib/state";
 
+type Operation = (onProgress: ProgressCallback) => Promise<void>;
+
 export default function Chat() {
-  const [lastAction, setLastAction] = useState<string | undefined>(undefined);
+  const [lastOperation, setLastOperation] = useState<Operation | undefined>(undefined);
   const [barVisible, setBarVisible] = useState(false);
   const [barTitle, setBarTitle] = useState("");
   const [barTokenCount, setBarTokenCount] = useState(0);
   const [errorMessage, setErrorMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const runOperation = async (operation: Operation) => {
+    setLastOperation(() => operation);
+    setBusy(true);
 
-  const doAction = async (action?: string) => {
     try {
-      await next(action, (title, _message, tokenCount) => {
+      await operation((title, _message, tokenCount) => {
         setBarVisible(true);
         setBarTitle(title);
         setBarTokenCount(tokenCount);
@@ -35,9 +44,14 @@ export default function Chat() {
       }
     } finally {
       setBarVisible(false);
+      setBusy(false);
     }
   };
 
+  const doAction = async (action?: string) => {
+    await runOperation((onProgress) => next(action, onProgress));
+  };
+
   const { events, actions } = useStateStore(
     useShallow((state) => ({
       events: state.events,
@@ -86,20 +100,20 @@ export default function Chat() {
         <ScrollArea ref={eventsContainerRef}>
           <Flex direction="column">
             {events.map((event, index) => (
-              // biome-ignore lint/suspicious/noArrayIndexKey: Events are append-only, so this is valid.
-              <EventView key={index} event={event} />
+              // biome-ignore lint/suspicious/noArrayIndexKey: Events are append-only (rewinding only truncates them), so this is valid.
+              <EventView key={index} event={event} index={index} />
             ))}
           </Flex>
+
+          {actions.length > 0 && !errorMessage && (
+            <NarrationControls
+              onRegenerate={(options) => runOperation((onProgress) => regenerate(onProgress, options))}
+              onContinue={() => runOperation((onProgress) => continueNarration(onProgress))}
+            />
+          )}
         </ScrollArea>
 
-        {actions.length > 0 && !errorMessage && (
-          <ActionChoice
-            onAction={(action) => {
-              setLastAction(action);
-              doAction(action);
-            }}
-          />
-        )}
+        {actions.length > 0 && !errorMessage && <ActionChoice onAction={doAction} />}
 
         {barVisible && (
           <ProcessingBar title={barTitle} onCancel={abort}>
@@ -114,12 +128,22 @@ export default function Chat() {
             errorMessage={errorMessage}
             onRetry={() => {
               setErrorMessage("");
-              doAction(lastAction);
+              if (lastOperation) {
+                runOperation(lastOperation);
+              }
             }}
             onCancel={() => setErrorMessage("")}
           />
         )}
       </Flex>
+
+      {/* Only shown if there is enough space next to the main column. */}
+      <Box className="hidden min-[90rem]:block bg-black border-r border-(--gold-10)" width="24rem" height="100vh">
+        <ChatSidebar busy={busy} />
+      </Box>
+
+      {/* Otherwise, the sidebar can be opened as a drawer. */}
+      <SidebarDrawer busy={busy} />
     </Flex>
   );
 }
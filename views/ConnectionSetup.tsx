@@ -1,21 +1,455 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
 
-import { Box, Code, Flex, Link, Tabs, Text, TextField } from "@radix-ui/themes";
+import { Box, Button, Code, Flex, Link, Select, Tabs, Text, TextField } from "@radix-ui/themes";
 import { Label } from "radix-ui";
+import { type ReactNode, useState } from "react";
 import { GiOuroboros } from "react-icons/gi";
 import { useShallow } from "zustand/shallow";
 import { usePluginsStateStore } from "@/app/plugins";
+import ConnectionDiagnostics from "@/components/ConnectionDiagnostics";
 import WizardStep from "@/components/WizardStep";
-import { useStateStore } from "@/lib/state";
+import { getBackend } from "@/lib/backend";
+import { type ChatTemplateName, getState, type TokenizerName, useStateStore } from "@/lib/state";
+import { chatTemplates } from "@/lib/templates";
+
+const tokenizerNames: Record<TokenizerName, string> = {
+  auto: "Automatic (based on model name and backend)",
+  heuristic: "Estimate (3 characters per token)",
+  backend: "Backend (/tokenize endpoint)",
+  cl100k_base: "OpenAI cl100k_base (GPT-3.5, GPT-4)",
+  o200k_base: "OpenAI o200k_base (GPT-4o and newer)",
+  llama3: "Llama 3",
+};
+
+// Some API providers have input limits that are substantially lower
+// than the context length. This is a pragmatic hack to address that
+// without having to add yet another potentially confusing UI input.
+const maxInputLength = 250000;
+
+// Sets the context length to the one reported by the backend.
+// Returns false if the backend cannot report it.
+async function detectContextLength(backendName: string): Promise<boolean> {
+  const contextLength = await getBackend(backendName).getContextLength?.();
+
+  if (!contextLength) {
+    return false;
+  }
+
+  getState().set((state) => {
+    state.contextLength = contextLength;
+    state.inputLength = Math.min(contextLength, maxInputLength);
+  });
+
+  return true;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function ContextLengthField({ backendName, description }: { backendName: string; description: ReactNode }) {
+  const { contextLength, setState } = useStateStore(
+    useShallow((state) => ({
+      contextLength: state.contextLength,
+      setState: state.set,
+    })),
+  );
+
+  const [detectionError, setDetectionError] = useState("");
+  const [detecting, setDetecting] = useState(false);
+
+  const detect = async () => {
+    setDetecting(true);
+
+    try {
+      const detected = await detectContextLength(backendName);
+      setDetectionError(detected ? "" : "Not reported by the server; enter it manually");
+    } catch (error) {
+      setDetectionError(getErrorMessage(error));
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  return (
+    <Box mb="5">
+      <Label.Root>
+        <Flex width="100%" justify="between" align="end">
+          <Text size="6">Context length</Text>
+          <Text size="4" color={detectionError ? "red" : "gray"}>
+            {detectionError || description}
+          </Text>
+        </Flex>
+        <Flex gap="3" mt="1">
+          <Box flexGrow="1">
+            <TextField.Root
+              value={contextLength}
+              onChange={(event) =>
+                setState((state) => {
+                  state.contextLength = Number(event.target.value);
+                  if (Number.isNaN(state.contextLength)) {
+                    state.contextLength = 0;
+                  }
+
+                  state.inputLength = Math.min(state.contextLength, maxInputLength);
+                })
+              }
+              className="font-mono"
+              size="3"
+              placeholder="16384"
+            />
+          </Box>
+          <Button variant="surface" size="3" loading={detecting} onClick={detect}>
+            <Text size="4">Detect</Text>
+          </Button>
+        </Flex>
+      </Label.Root>
+    </Box>
+  );
+}
+
+function ModelField({
+  backendName,
+  model,
+  onChange,
+  description,
+}: {
+  backendName: string;
+  model: string;
+  onChange: (model: string) => void;
+  description: ReactNode;
+}) {
+  const [models, setModels] = useState<string[]>([]);
+  const [modelsError, setModelsError] = useState("");
+  const [loadingModels, setLoadingModels] = useState(false);
+
+  const loadModels = async () => {
+    setLoadingModels(true);
+
+    try {
+      const models = (await getBackend(backendName).getModels?.()) ?? [];
+      setModels(models);
+      setModelsError(models.length > 0 ? "" : "The server did not report any models");
+    } catch (error) {
+      setModels([]);
+      setModelsError(getErrorMessage(error));
+    } finally {
+      setLoadingModels(false);
+    }
+  };
+
+  return (
+    <Box mb="5">
+      <Label.Root>
+        <Flex width="100%" justify="between" align="end">
+          <Text size="6">Model</Text>
+          <Text size="4" color={modelsError ? "red" : "gray"}>
+            {modelsError || description}
+          </Text>
+        </Flex>
+        <Flex gap="3" mt="1">
+          <Box flexGrow="1">
+            <TextField.Root
+              value={model}
+              onChange={(event) => onChange(event.target.value)}
+              className="font-mono"
+              size="3"
+              placeholder="mistral-small3.2"
+            />
+          </Box>
+          {models.length > 0 ? (
+            <Select.Root
+              value={models.includes(model) ? model : ""}
+              onValueChange={(value) => {
+                onChange(value);
+                // The context length is a property of the model, so it is updated along with it.
+                // Failure is not a problem here, as the user can still enter it manually.
+                detectContextLength(backendName).catch(() => {});
+              }}
+              size="3"
+            >
+              <Select.Trigger placeholder="Available models" />
+              <Select.Content>
+                {models.map((name) => (
+                  <Select.Item key={name} value={name}>
+                    {name}
+                  </Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
+          ) : (
+            <Button variant="surface" size="3" loading={loadingModels} onClick={loadModels}>
+              <Text size="4">List models</Text>
+            </Button>
+          )}
+        </Flex>
+      </Label.Root>
+    </Box>
+  );
+}
+
+function OllamaConfiguration() {
+  const { ollamaUrl, ollamaModel, ollamaKeepAlive, setState } = useStateStore(
+    useShallow((state) => ({
+      ollamaUrl: state.ollamaUrl,
+      ollamaModel: state.ollamaModel,
+      ollamaKeepAlive: state.ollamaKeepAlive,
+      setState: state.set,
+    })),
+  );
+
+  return (
+    <>
+      <Box mb="5">
+        <Label.Root>
+          <Flex width="100%" justify="between" align="end">
+            <Text size="6">Server URL</Text>
+            <Text size="4" color="gray">
+              Without <Code size="3">/v1/</Code> or <Code size="3">/api/</Code>
+            </Text>
+          </Flex>
+          <TextField.Root
+            value={ollamaUrl}
+            onChange={(event) =>
+              setState((state) => {
+                state.ollamaUrl = event.target.value;
+              })
+            }
+            className="mt-1 font-mono"
+            size="3"
+            placeholder="http://localhost:11434/"
+          />
+        </Label.Root>
+      </Box>
+
+      <ModelField
+        backendName="ollama"
+        model={ollamaModel}
+        onChange={(model) =>
+          setState((state) => {
+            state.ollamaModel = model;
+          })
+        }
+        description="Must be installed on the server"
+      />
+
+      <ContextLengthField
+        backendName="ollama"
+        description={
+          <>
+            Sent as <Code size="3">num_ctx</Code>; higher values require more memory
+          </>
+        }
+      />
+
+      <Box mb="5">
+        <Label.Root>
+          <Flex width="100%" justify="between" align="end">
+            <Text size="6">Keep alive</Text>
+            <Text size="4" color="gray">
+              How long the model stays loaded after a request (e.g. <Code size="3">30m</Code>)
+            </Text>
+          </Flex>
+          <TextField.Root
+            value={ollamaKeepAlive}
+            onChange={(event) =>
+              setState((state) => {
+                state.ollamaKeepAlive = event.target.value;
+              })
+            }
+            className="mt-1 font-mono"
+            size="3"
+            placeholder="Server default"
+          />
+        </Label.Root>
+      </Box>
+
+      <Box>
+        <Text size="5" color="amber">
+          <strong>Note:</strong> This backend uses Ollama's native API, which supports JSON schema constraints through
+          the <Code size="4">format</Code> parameter. Ollama 0.5 or newer is required.
+        </Text>
+      </Box>
+    </>
+  );
+}
+
+function KoboldConfiguration() {
+  const { koboldUrl, chatTemplate, setState } = useStateStore(
+    useShallow((state) => ({
+      koboldUrl: state.koboldUrl,
+      chatTemplate: state.chatTemplate,
+      setState: state.set,
+    })),
+  );
+
+  return (
+    <>
+      <Box mb="5">
+        <Label.Root>
+          <Flex width="100%" justify="between" align="end">
+            <Text size="6">Server URL</Text>
+            <Text size="4" color="gray">
+              Without <Code size="3">/api/</Code>
+            </Text>
+          </Flex>
+          <TextField.Root
+            value={koboldUrl}
+            onChange={(event) =>
+              setState((state) => {
+                state.koboldUrl = event.target.value;
+              })
+            }
+            className="mt-1 font-mono"
+            size="3"
+            placeholder="http://localhost:5001/"
+          />
+        </Label.Root>
+      </Box>
+
+      <Box mb="5">
+        <Label.Root>
+          <Flex width="100%" justify="between" align="end">
+            <Text size="6">Chat template</Text>
+            <Text size="4" color="gray">
+              Must match the prompt format the model was trained with
+            </Text>
+          </Flex>
+          <Select.Root
+            value={chatTemplate}
+            onValueChange={(value: ChatTemplateName) =>
+              setState((state) => {
+                state.chatTemplate = value;
+              })
+            }
+            size="3"
+          >
+            <Select.Trigger className="mt-1 w-full" />
+            <Select.Content>
+              {Object.entries(chatTemplates).map(([name, template]) => (
+                <Select.Item key={name} value={name}>
+                  {template.title}
+                </Select.Item>
+              ))}
+            </Select.Content>
+          </Select.Root>
+        </Label.Root>
+      </Box>
+
+      <ContextLengthField
+        backendName="kobold"
+        description="Should not exceed the context size KoboldCpp was started with"
+      />
+
+      <Box>
+        <Text size="5" color="amber">
+          <strong>Note:</strong> This backend uses text completion, and constrains generation with GBNF grammars instead
+          of JSON schemas. It works with <Link href="https://github.com/LostRuins/koboldcpp">KoboldCpp</Link> and other
+          servers that implement the KoboldCpp API.
+        </Text>
+      </Box>
+    </>
+  );
+}
+
+// Settings that apply regardless of which backend is active.
+function GenerationSettings() {
+  const { tokenizer, retrievalShare, maxObjectAttempts, setState } = useStateStore(
+    useShallow((state) => ({
+      tokenizer: state.tokenizer,
+      retrievalShare: state.retrievalShare,
+      maxObjectAttempts: state.maxObjectAttempts,
+      setState: state.set,
+    })),
+  );
+
+  return (
+    <>
+      <Box mb="5">
+        <Label.Root>
+          <Flex width="100%" justify="between" align="end">
+            <Text size="6">Tokenizer</Text>
+            <Text size="4" color="gray">
+              Used to fit the story into the context
+            </Text>
+          </Flex>
+          <Select.Root
+            value={tokenizer}
+            onValueChange={(value: TokenizerName) =>
+              setState((state) => {
+                state.tokenizer = value;
+              })
+            }
+            size="3"
+          >
+            <Select.Trigger className="mt-1 w-full" />
+            <Select.Content>
+              {Object.entries(tokenizerNames).map(([name, title]) => (
+                <Select.Item key={name} value={name}>
+                  {title}
+                </Select.Item>
+              ))}
+            </Select.Content>
+          </Select.Root>
+        </Label.Root>
+      </Box>
+
+      <Box mb="5">
+        <Label.Root>
+          <Flex width="100%" justify="between" align="end">
+            <Text size="6">Retrieved memories (%)</Text>
+            <Text size="4" color="gray">
+              Share of the context used for recalling parts of the story that no longer fit (0-50)
+            </Text>
+          </Flex>
+          <TextField.Root
+            value={Math.round(retrievalShare * 100)}
+            onChange={(event) =>
+              setState((state) => {
+                const percentage = Number(event.target.value);
+                state.retrievalShare = Number.isNaN(percentage) ? 0 : Math.min(Math.max(percentage, 0), 50) / 100;
+              })
+            }
+            className="mt-1 font-mono"
+            size="3"
+            placeholder="10"
+          />
+        </Label.Root>
+      </Box>
+
+      <Box mb="5">
+        <Label.Root>
+          <Flex width="100%" justify="between" align="end">
+            <Text size="6">Attempts for structured output</Text>
+            <Text size="4" color="gray">
+              Maximum number of requests if the model returns invalid JSON (1-10)
+            </Text>
+          </Flex>
+          <TextField.Root
+            value={maxObjectAttempts}
+            onChange={(event) =>
+              setState((state) => {
+                const attempts = Math.round(Number(event.target.value));
+                state.maxObjectAttempts = Number.isNaN(attempts) ? 1 : Math.min(Math.max(attempts, 1), 10);
+              })
+            }
+            className="mt-1 font-mono"
+            size="3"
+            placeholder="3"
+          />
+        </Label.Root>
+      </Box>
+    </>
+  );
+}
 
 export default function ConnectionSetup({ onNext, onBack }: { onNext?: () => void; onBack?: () => void }) {
-  const { apiUrl, apiKey, model, contextLength, activeBackend, setState } = useStateStore(
+  const { apiUrl, apiKey, model, activeBackend, setState } = useStateStore(
     useShallow((state) => ({
       apiUrl: state.apiUrl,
       apiKey: state.apiKey,
       model: state.model,
-      contextLength: state.contextLength,
       activeBackend: state.activeBackend,
       setState: state.set,
     })),
@@ -43,6 +477,12 @@ export default function ConnectionSetup({ onNext, onBack }: { onNext?: () => voi
               <Tabs.Trigger value="default">
                 <Text size="6">OpenAI-compatible</Text>
               </Tabs.Trigger>
+              <Tabs.Trigger value="ollama">
+                <Text size="6">Ollama</Text>
+              </Tabs.Trigger>
+              <Tabs.Trigger value="kobold">
+                <Text size="6">KoboldCpp</Text>
+              </Tabs.Trigger>
               {backendUIs.map((backendUI) => (
                 <Tabs.Trigger key={backendUI.backendName} value={backendUI.backendName}>
                   <Text size="6">{backendUI.configurationTab}</Text>
@@ -99,57 +539,21 @@ export default function ConnectionSetup({ onNext, onBack }: { onNext?: () => voi
                   </Label.Root>
                 </Box>
 
-                <Box mb="5">
-                  <Label.Root>
-                    <Flex width="100%" justify="between" align="end">
-                      <Text size="6">Model</Text>
-                      <Text size="4" color="gray">
-                        Can be left empty for llama.cpp and Kobold
-                      </Text>
-                    </Flex>
-                    <TextField.Root
-                      value={model}
-                      onChange={(event) =>
-                        setState((state) => {
-                          state.model = event.target.value;
-                        })
-                      }
-                      className="mt-1 font-mono"
-                      size="3"
-                      placeholder="mistral-small3.2"
-                    />
-                  </Label.Root>
-                </Box>
+                <ModelField
+                  backendName="default"
+                  model={model}
+                  onChange={(model) =>
+                    setState((state) => {
+                      state.model = model;
+                    })
+                  }
+                  description="Can be left empty for llama.cpp and Kobold"
+                />
 
-                <Box mb="5">
-                  <Label.Root>
-                    <Flex width="100%" justify="between" align="end">
-                      <Text size="6">Context length</Text>
-                      <Text size="4" color="gray">
-                        Check backend configuration or provider documentation for the correct value
-                      </Text>
-                    </Flex>
-                    <TextField.Root
-                      value={contextLength}
-                      onChange={(event) =>
-                        setState((state) => {
-                          state.contextLength = Number(event.target.value);
-                          if (Number.isNaN(state.contextLength)) {
-                            state.contextLength = 0;
-                          }
-
-                          // Some API providers have input limits that are substantially lower
-                          // than the context length. This is a pragmatic hack to address that
-                          // without having to add yet another potentially confusing UI input.
-                          state.inputLength = Math.min(state.contextLength, 250000);
-                        })
-                      }
-                      className="mt-1 font-mono"
-                      size="3"
-                      placeholder="16384"
-                    />
-                  </Label.Root>
-                </Box>
+                <ContextLengthField
+                  backendName="default"
+                  description="Check backend configuration or provider documentation for the correct value"
+                />
 
                 <Box>
                   <Text size="5" color="amber">
@@ -164,6 +568,14 @@ export default function ConnectionSetup({ onNext, onBack }: { onNext?: () => voi
                 </Box>
               </Tabs.Content>
 
+              <Tabs.Content value="ollama">
+                <OllamaConfiguration />
+              </Tabs.Content>
+
+              <Tabs.Content value="kobold">
+                <KoboldConfiguration />
+              </Tabs.Content>
+
               {backendUIs.map((backendUI) => (
                 <Tabs.Content key={backendUI.backendName} value={backendUI.backendName}>
                   {backendUI.configurationPage}
@@ -171,6 +583,14 @@ export default function ConnectionSetup({ onNext, onBack }: { onNext?: () => voi
               ))}
             </Box>
           </Tabs.Root>
+
+          <Box mt="5">
+            <GenerationSettings />
+          </Box>
+
+          <Box mt="6">
+            <ConnectionDiagnostics />
+          </Box>
         </Box>
 
         <Box className="w-[250px]">
@@ -1,24 +1,52 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
 
-import { Box, RadioCards, Text } from "@radix-ui/themes";
+import { RadioCards } from "@radix-ui/themes";
+import { useShallow } from "zustand/shallow";
 import ImageOption from "@/components/ImageOption";
 import WizardStep from "@/components/WizardStep";
+import { getAssetUrl } from "@/lib/genres";
+import { type Genre, useStateStore } from "@/lib/state";
 
 export default function GenreSelect({ onNext, onBack }: { onNext?: () => void; onBack?: () => void }) {
+  const { genre, genrePacks, setState } = useStateStore(
+    useShallow((state) => ({
+      genre: state.genre,
+      genrePacks: state.genrePacks,
+      setState: state.set,
+    })),
+  );
+
   return (
     <WizardStep title="Genre" onNext={onNext} onBack={onBack}>
-      <RadioCards.Root defaultValue="fantasy" columns="3">
-        <ImageOption title="Fantasy" description="Elves, dwarves, and wizards" image="fantasy" value="fantasy" />
-        <ImageOption title="Sci-Fi" description="Spaceships and aliens" image="scifi" value="scifi" disabled />
-        <ImageOption title="Reality" description="Dust and grime" image="reality" value="reality" disabled />
-      </RadioCards.Root>
+      <RadioCards.Root
+        value={genre}
+        onValueChange={(value: Genre) =>
+          setState((state) => {
+            const genrePack = state.genrePacks[value];
 
-      <Box mt="5">
-        <Text as="div" align="center" size="4" color="gray">
-          <strong>Note:</strong> Only the fantasy genre is currently implemented.
-        </Text>
-      </Box>
+            state.genre = value;
+
+            // The previously selected race and tropes might not exist in the new genre.
+            if (!genrePack.races.some((race) => race.id === state.protagonist.race)) {
+              state.protagonist.race = genrePack.races[0].id;
+            }
+
+            state.tropes = state.tropes.filter((id) => genrePack.tropes.some((trope) => trope.id === id));
+          })
+        }
+        columns="3"
+      >
+        {Object.values(genrePacks).map((genrePack) => (
+          <ImageOption
+            key={genrePack.id}
+            title={genrePack.title}
+            description={genrePack.description}
+            image={getAssetUrl(genrePack, genrePack.image)}
+            value={genrePack.id}
+          />
+        ))}
+      </RadioCards.Root>
     </WizardStep>
   );
 }
@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025  Philipp Emanuel Weidmann <pew@worldwidemann.com>
+
+import { Box, Button, Flex, Heading, Link, Text } from "@radix-ui/themes";
+import { downloadFile } from "@/lib/download";
+import { getStorageBackup, resetMainState } from "@/lib/saves";
+
+function downloadSavedState() {
+  downloadFile(getStorageBackup(), "waidrin-backup.json", "application/json");
+}
+
+// Shown instead of the regular UI if the saved state cannot be restored.
+// Nothing in here may write to the state store before the user decides to reset,
+// because that would overwrite the saved state.
+export default function Recovery({ error }: { error: Error }) {
+  return (
+    <Flex width="100%" justify="center">
+      <Box width="60rem" mt="9" mb="9">
+        <Heading className="lowercase" size="9" weight="regular" align="center" mb="6">
+          Recovery
+        </Heading>
+
+        <Box mb="5">
+          <Text size="5">
+            Your saved progress could not be restored. This can happen if the saved data is corrupted, or if it was
+            saved by a different version of Waidrin.
+          </Text>
+        </Box>
+        <Box mb="5">
+          <Text className="font-mono whitespace-pre-wrap" size="3" color="red">
+            {error.message}
+          </Text>
+        </Box>
+        <Box mb="5">
+          <Text size="5">
+            Your saved data has not been modified. You can download a backup of all campaigns before resetting, for
+            example to restore it manually later or to attach it to a{" "}
+            <Link href="https://github.com/p-e-w/waidrin/issues">bug report</Link>. Resetting only discards the active
+            campaign and the settings. Campaigns in other save slots are kept.
+          </Text>
+        </Box>
+
+        <Flex gap="3" justify="center">
+          <Button variant="classic" size="3" onClick={downloadSavedState}>
+            <Text size="6">Download backup</Text>
+          </Button>
+          <Button
+            variant="classic"
+            color="red"
+            size="3"
+            onClick={() => {
+              resetMainState();
+              window.location.reload();
+            }}
+          >
+            <Text size="6">Reset active campaign</Text>
+          </Button>
+        </Flex>
+      </Box>
+    </Flex>
+  );
+}
@@ -5,7 +5,9 @@ import { Box, Flex, Heading, RadioCards, Switch, Text, TextArea, TextField } fro
 import { Label } from "radix-ui";
 import { GiBullHorns, GiDrippingBlade } from "react-icons/gi";
 import { useShallow } from "zustand/shallow";
+import LorebookEditor from "@/components/LorebookEditor";
 import WizardStep from "@/components/WizardStep";
+import { getAssetUrl, getCharacterImage, getRaceName } from "@/lib/genres";
 import { type SexualContentLevel, useStateStore, type ViolentContentLevel } from "@/lib/state";
 
 export default function ScenarioSetup({ onNext, onBack }: { onNext?: () => void; onBack?: () => void }) {
@@ -16,6 +18,8 @@ export default function ScenarioSetup({ onNext, onBack }: { onNext?: () => void;
     })),
   );
 
+  const genrePack = state.genrePacks[state.genre];
+
   return (
     <WizardStep title="Scenario" onNext={onNext} onBack={onBack}>
       <Flex gap="6" mb="8">
@@ -61,11 +65,18 @@ export default function ScenarioSetup({ onNext, onBack }: { onNext?: () => void;
         </Box>
         <img
           className="h-64 w-38.5 shadow-(--base-card-surface-box-shadow) rounded-(--radius-4)"
-          src="/images/fantasy.png"
-          alt="fantasy world"
+          src={getAssetUrl(genrePack, genrePack.image)}
+          alt={`${genrePack.title} world`}
         />
       </Flex>
 
+      <Heading className="lowercase" size="8" color="gold" mb="3">
+        Lorebook
+      </Heading>
+      <Box mb="8">
+        <LorebookEditor />
+      </Box>
+
       <Flex gap="6" mb="8">
         <Box flexGrow="1">
           <Heading className="lowercase" size="8" color="gold" mb="3">
@@ -109,82 +120,36 @@ export default function ScenarioSetup({ onNext, onBack }: { onNext?: () => void;
         </Box>
         <img
           className="h-64 w-38.5 shadow-(--base-card-surface-box-shadow) rounded-(--radius-4)"
-          src={`/images/${state.protagonist.gender}-${state.protagonist.race}.png`}
-          alt={`${state.protagonist.gender} ${state.protagonist.race}`}
+          src={getCharacterImage(genrePack, state.protagonist)}
+          alt={`${state.protagonist.gender} ${getRaceName(genrePack, state.protagonist.race)}`}
         />
       </Flex>
 
       <Heading className="lowercase" size="8" color="gold" mb="5">
         Tropes
       </Heading>
-      <Box mb="5">
-        <Text as="label" size="6">
-          <Flex gap="3">
-            <Switch
-              checked={state.hiddenDestiny}
-              onCheckedChange={(checked) =>
-                setState((state) => {
-                  state.hiddenDestiny = checked;
-                })
-              }
-              className="mt-[0.08em]"
-              size="3"
-            />
-            The protagonist has a hidden destiny, and will gradually uncover it
-          </Flex>
-        </Text>
-      </Box>
-      <Box mb="5">
-        <Text as="label" size="6">
-          <Flex gap="3">
-            <Switch
-              checked={state.betrayal}
-              onCheckedChange={(checked) =>
-                setState((state) => {
-                  state.betrayal = checked;
-                })
-              }
-              className="mt-[0.08em]"
-              size="3"
-            />
-            The protagonist will eventually be betrayed by someone they trust
-          </Flex>
-        </Text>
-      </Box>
-      <Box mb="5">
-        <Text as="label" size="6">
-          <Flex gap="3">
-            <Switch
-              checked={state.oppositeSexMagnet}
-              onCheckedChange={(checked) =>
-                setState((state) => {
-                  state.oppositeSexMagnet = checked;
-                })
-              }
-              className="mt-[0.08em]"
-              size="3"
-            />
-            Characters of the opposite sex tend to find the protagonist attractive
-          </Flex>
-        </Text>
-      </Box>
-      <Box mb="5">
-        <Text as="label" size="6">
-          <Flex gap="3">
-            <Switch
-              checked={state.sameSexMagnet}
-              onCheckedChange={(checked) =>
-                setState((state) => {
-                  state.sameSexMagnet = checked;
-                })
-              }
-              className="mt-[0.08em]"
-              size="3"
-            />
-            Characters of the same sex tend to find the protagonist attractive
-          </Flex>
-        </Text>
-      </Box>
+      {genrePack.tropes.map((trope) => (
+        <Box key={trope.id} mb="5">
+          <Text as="label" size="6">
+            <Flex gap="3">
+              <Switch
+                checked={state.tropes.includes(trope.id)}
+                onCheckedChange={(checked) =>
+                  setState((state) => {
+                    state.tropes = state.tropes.filter((id) => id !== trope.id);
+                    if (checked) {
+                      state.tropes.push(trope.id);
+                    }
+                  })
+                }
+                className="mt-[0.08em]"
+                size="3"
+              />
+              {trope.description}
+            </Flex>
+          </Text>
+        </Box>
+      ))}
 
       <Heading className="lowercase" size="8" color="gold" mt="9" mb="5">
         Sexual content
@@ -27,10 +27,8 @@ export default function Welcome({ onNext, onBack }: { onNext?: () => void; onBac
       </Box>
       <Box mb="5">
         <Text size="5">
-          Waidrin is currently missing lots of functionality that you probably take for granted, such as the ability to
-          edit messages, to go back to an earlier stage of the game, to regenerate responses you don't like, and
-          countless other features. Most of the scenario configuration UI doesn't actually affect the narration yet.
-          Perhaps most crucially,{" "}
+          Waidrin is currently missing lots of functionality that you probably take for granted. Most of the scenario
+          configuration UI doesn't actually affect the narration yet. Perhaps most crucially,{" "}
           <Text color="red">Waidrin does not yet store your progress on the server, but in your browser.</Text> If you
           clear your browsing data, the entire system will reset to its initial state.
         </Text>